@@ -0,0 +1,103 @@
+"use client";
+
+import { SLIDE_ADVANCES } from "../lib/settings";
+import { getRevealedLinks } from "../lib/telephone";
+import { GameState, SlideAdvance } from "../lib/types";
+import { ChainView } from "./ChainView";
+
+interface ChainSlideshowProps {
+  gameState: GameState;
+  timeRemaining: number; // seconds left on the current countdown
+  isHost: boolean;
+  onNextSlide: () => void;
+  onPreviousSlide: () => void;
+  onPause: (paused: boolean) => void;
+  onSetSlideAdvance: (advance: SlideAdvance) => void;
+}
+
+// Telephone mode: each chain unfolds one link at a time
+export function ChainSlideshow({
+  gameState,
+  timeRemaining,
+  isHost,
+  onNextSlide,
+  onPreviousSlide,
+  onPause,
+  onSetSlideAdvance,
+}: ChainSlideshowProps) {
+  const chain = gameState.chains[gameState.currentSlideIndex];
+
+  if (!chain) {
+    return (
+      <div className="slideshow">
+        <h2>📞 No chains to show!</h2>
+        <p>Nobody&apos;s sentence made it into a chain this round.</p>
+      </div>
+    );
+  }
+
+  const revealed = getRevealedLinks(gameState, chain, timeRemaining);
+  // Paced by hand, the chain is always held; that isn't a pause
+  const manual = gameState.settings.slideAdvance === "manual";
+  const paused = !manual && gameState.pausedAtLink !== null;
+  const moreLinks = revealed <= chain.steps.length;
+
+  return (
+    <div className="slideshow">
+      <div className="slideshow-header">
+        <h2>📞 How Did It Turn Out?</h2>
+        <div className="slide-progress">
+          {gameState.currentSlideIndex + 1} / {gameState.chains.length}
+        </div>
+        {paused ? (
+          <div className="timer">⏸️ Paused</div>
+        ) : gameState.endsAt !== null ? (
+          <div className="timer">⏱️ {timeRemaining}s</div>
+        ) : (
+          <div className="timer">✋ Teacher&apos;s pace</div>
+        )}
+      </div>
+
+      <div className="slide-content">
+        <ChainView chain={chain} revealed={revealed} />
+        {!isHost && paused && (
+          <p className="host-text">⏸️ The teacher has paused here to talk about this one</p>
+        )}
+      </div>
+
+      {isHost && (
+        <div className="host-controls">
+          <div className="slide-nav">
+            <button
+              className="btn-secondary"
+              onClick={onPreviousSlide}
+              disabled={gameState.currentSlideIndex === 0}
+            >
+              ← Back
+            </button>
+            {!manual && (
+              <button className="btn-secondary" onClick={() => onPause(!paused)}>
+                {paused ? "▶️ Resume" : "⏸️ Pause"}
+              </button>
+            )}
+            <button className="btn-secondary" onClick={onNextSlide}>
+              {manual && moreLinks ? "Show Next Link →" : "Skip to Next →"}
+            </button>
+          </div>
+          <div className="replay-speed">
+            <span>Advance</span>
+            {SLIDE_ADVANCES.map((option) => (
+              <button
+                key={option.advance}
+                className={`speed-btn ${gameState.settings.slideAdvance === option.advance ? "active" : ""}`}
+                onClick={() => onSetSlideAdvance(option.advance)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
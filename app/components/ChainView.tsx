@@ -0,0 +1,38 @@
+"use client";
+
+import { Chain } from "../lib/types";
+import { DrawingView } from "./DrawingView";
+
+interface ChainViewProps {
+  chain: Chain;
+  revealed?: number; // links to show, the sentence included - all by default
+}
+
+// A telephone chain from its sentence to the last turn
+export function ChainView({ chain, revealed = chain.steps.length + 1 }: ChainViewProps) {
+  return (
+    <ol className="chain">
+      <li className="chain-link sentence">
+        <span className="chain-author">✍️ {chain.authorName} wrote</span>
+        <p className="chain-text">&quot;{chain.sentence}&quot;</p>
+      </li>
+      {chain.steps.slice(0, revealed - 1).map((step, index) => (
+        <li key={index} className="chain-link">
+          {step.drawing ? (
+            <>
+              <span className="chain-author">🎨 {step.name} drew</span>
+              <DrawingView drawing={step.drawing} label={`Drawing by ${step.name}`} className="chain-drawing" />
+            </>
+          ) : step.text ? (
+            <>
+              <span className="chain-author">💬 {step.name} thought it was</span>
+              <p className="chain-text">&quot;{step.text}&quot;</p>
+            </>
+          ) : (
+            <span className="chain-author skipped">⏭️ {step.name} missed their turn</span>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from "react";
+import { getAnswerDistribution } from "../lib/quiz";
+import { getStreak } from "../lib/scoring";
+import { GameState, Player, QuizAnswerResult } from "../lib/types";
+
+interface ClassroomQuizProps {
+  gameState: GameState;
+  timeRemaining: number; // seconds left on the current countdown
+  localPlayer: Player | null;
+  quizResults: Record<number, QuizAnswerResult>;
+  isHost: boolean;
+  onSubmitAnswer: (questionIndex: number, answerIndex: number) => void;
+  onRevealAnswer: () => void;
+  onNextQuestion: () => void;
+  onStartDrawing: () => void;
+}
+
+// Host-paced quiz: the whole room sees the same question, answers lock when the
+// timer runs out and everyone sees how the class answered before moving on
+export function ClassroomQuiz({
+  gameState,
+  timeRemaining,
+  localPlayer,
+  quizResults,
+  isHost,
+  onSubmitAnswer,
+  onRevealAnswer,
+  onNextQuestion,
+  onStartDrawing,
+}: ClassroomQuizProps) {
+  // Answers picked here but not yet confirmed by the host
+  const [picks, setPicks] = useState<Record<number, number>>({});
+
+  const questions = gameState.quizQuestions;
+  const questionIndex = gameState.currentQuestionIndex;
+  const question = questions[questionIndex];
+  const revealed = gameState.questionRevealed;
+  const participants = gameState.players.filter((p) => !p.isHost);
+  const distribution = getAnswerDistribution(gameState, questionIndex);
+  const answeredCount = distribution.reduce((sum, count) => sum + count, 0);
+  const isLastQuestion = questionIndex >= questions.length - 1;
+
+  // Players only learn the answer from the host's result once it's revealed
+  const result = quizResults[questionIndex];
+  const correctIndex = isHost ? gameState.answerKey?.[questionIndex] : result?.correctIndex;
+  const myAnswer = result?.answerIndex ?? picks[questionIndex];
+  const hasAnswered = myAnswer !== undefined && myAnswer !== null;
+  const streak = getStreak(quizResults, questionIndex);
+
+  const handleAnswer = (answerIndex: number) => {
+    if (hasAnswered || revealed) return;
+    setPicks((prev) => ({ ...prev, [questionIndex]: answerIndex }));
+    onSubmitAnswer(questionIndex, answerIndex);
+  };
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  };
+
+  if (!question) return null;
+
+  const timer = (
+    <div className={`timer ${!revealed && timeRemaining <= 5 ? "warning" : ""}`}>
+      {revealed ? "➡️" : "⏱️"} {formatTime(timeRemaining)}
+    </div>
+  );
+
+  const options = (
+    <div className="options">
+      {question.options.map((option, index) => {
+        let className = "option";
+        if (revealed) {
+          if (index === correctIndex) {
+            className += " correct";
+          } else if (index === myAnswer) {
+            className += " wrong";
+          }
+        } else if (index === myAnswer) {
+          className += " selected";
+        }
+
+        const share = answeredCount > 0 ? (distribution[index] / answeredCount) * 100 : 0;
+        const showCounts = revealed || isHost;
+
+        return (
+          <button
+            key={index}
+            className={className}
+            onClick={() => handleAnswer(index)}
+            disabled={isHost || hasAnswered || revealed}
+          >
+            {showCounts && <span className="option-share" style={{ width: `${share}%` }} />}
+            <span className="option-label">{option}</span>
+            {showCounts && <span className="option-count">👥 {distribution[index]}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  if (isHost) {
+    return (
+      <div className="quiz-round">
+        <div className="quiz-header">
+          <h2>🧠 Question {questionIndex + 1} of {questions.length}</h2>
+          {timer}
+        </div>
+
+        <div className="question-card classroom">
+          <h3>{question.question}</h3>
+          {options}
+          <p className="answered-count">
+            {answeredCount}/{participants.length} answered
+          </p>
+        </div>
+
+        <div className="host-controls">
+          {!revealed ? (
+            <button className="btn-primary" onClick={onRevealAnswer}>
+              Reveal Answer Now 🔍
+            </button>
+          ) : (
+            <button className="btn-primary" onClick={onNextQuestion}>
+              {isLastQuestion ? "Start Drawing 🎨" : "Next Question →"}
+            </button>
+          )}
+          <button className="btn-secondary" onClick={onStartDrawing}>
+            End Quiz Early
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="quiz-round">
+      <div className="quiz-header">
+        <h2>🧠 Question {questionIndex + 1} of {questions.length}</h2>
+        {timer}
+      </div>
+
+      <div className="quiz-content">
+        <div className="question-card classroom">
+          <h3>{question.question}</h3>
+          {options}
+
+          {revealed ? (
+            correctIndex !== undefined && (
+              <div className="result">
+                {myAnswer === correctIndex ? (
+                  <p className="correct-text">
+                    🎉 Correct! +{result?.points ?? 0}{streak > 1 && ` 🔥 ${streak} in a row`}
+                  </p>
+                ) : (
+                  <p className="wrong-text">
+                    {hasAnswered ? "❌ Oops!" : "⌛ Too slow!"} It was: {question.options[correctIndex]}
+                  </p>
+                )}
+              </div>
+            )
+          ) : (
+            hasAnswered && <p className="waiting-text">Answer locked in! Waiting for the others...</p>
+          )}
+        </div>
+
+        <div className="quiz-sidebar">
+          <div className="score-card">
+            <h4>Your Score</h4>
+            <div className="score">{localPlayer?.quizScore || 0}</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
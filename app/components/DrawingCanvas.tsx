@@ -1,137 +1,72 @@
 "use client";
 
 import { useCallback, useEffect, useRef, useState } from "react";
-import { getStroke } from "perfect-freehand";
-import { DrawingTool, GameState, getUnlockedTools, getUnlockedColors, Player, ToolType } from "../lib/types";
+import { CanvasAction, decodeDrawing, encodeDrawing, Point, renderActions } from "../lib/drawing";
+import { Drawing, DrawingProgress, DrawingTool, GameState, getUnlockedTools, getUnlockedColors, Player } from "../lib/types";
+import { clearDrawingDraft, loadDrawingDraft, saveDrawingDraft } from "../lib/session";
+import { getChainLength, isLastChainStep } from "../lib/telephone";
+import { getTeamMembers, getTeamOf, getUnlockScore, SharedCanvas } from "../lib/teams";
+import { DrawingView } from "./DrawingView";
 
 interface DrawingCanvasProps {
   gameState: GameState;
+  timeRemaining: number; // seconds left on the current countdown
   localPlayer: Player | null;
+  liveDrawings: Record<string, Drawing>; // host only
+  teamCanvas: SharedCanvas | null; // team mode
   isHost: boolean;
-  onSubmitDrawing: (drawingDataUrl: string) => void;
-  onUpdateTime: (time: number) => void;
+  onSubmitDrawing: (drawing: Drawing) => void;
+  onDrawingProgress: (progress: DrawingProgress) => void;
+  onTeamActions: (from: number, actions: CanvasAction[]) => void;
   onStartSlideshow: () => void;
 }
 
-interface Point {
-  x: number;
-  y: number;
-  pressure?: number;
-}
-
-interface CanvasAction {
-  type: 'stroke' | 'fill';
-  points?: Point[];
-  color: string;
-  size: number;
-  toolType: ToolType;
-  fillX?: number;
-  fillY?: number;
-}
-
-function getSvgPathFromStroke(stroke: number[][]) {
-  if (!stroke.length) return "";
-
-  const d = stroke.reduce(
-    (acc, [x0, y0], i, arr) => {
-      const [x1, y1] = arr[(i + 1) % arr.length];
-      acc.push(x0, y0, (x0 + x1) / 2, (y0 + y1) / 2);
-      return acc;
-    },
-    ["M", ...stroke[0], "Q"]
-  );
-
-  d.push("Z");
-  return d.join(" ");
-}
-
-// Flood fill algorithm
-function floodFill(
-  ctx: CanvasRenderingContext2D,
-  startX: number,
-  startY: number,
-  fillColor: string,
-  width: number,
-  height: number
-) {
-  const imageData = ctx.getImageData(0, 0, width, height);
-  const data = imageData.data;
-
-  // Convert hex to RGB
-  const hexToRgb = (hex: string) => {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result ? {
-      r: parseInt(result[1], 16),
-      g: parseInt(result[2], 16),
-      b: parseInt(result[3], 16)
-    } : { r: 0, g: 0, b: 0 };
-  };
-
-  const fillRgb = hexToRgb(fillColor);
-  const startIdx = (Math.floor(startY) * width + Math.floor(startX)) * 4;
-  const startR = data[startIdx];
-  const startG = data[startIdx + 1];
-  const startB = data[startIdx + 2];
-
-  // Don't fill if clicking on the same color
-  if (startR === fillRgb.r && startG === fillRgb.g && startB === fillRgb.b) {
-    return;
-  }
-
-  const tolerance = 32;
-  const matchesStart = (idx: number) => {
-    return (
-      Math.abs(data[idx] - startR) <= tolerance &&
-      Math.abs(data[idx + 1] - startG) <= tolerance &&
-      Math.abs(data[idx + 2] - startB) <= tolerance
-    );
-  };
-
-  const stack: [number, number][] = [[Math.floor(startX), Math.floor(startY)]];
-  const visited = new Set<string>();
-
-  while (stack.length > 0) {
-    const [x, y] = stack.pop()!;
-    const key = `${x},${y}`;
-
-    if (visited.has(key)) continue;
-    if (x < 0 || x >= width || y < 0 || y >= height) continue;
-
-    const idx = (y * width + x) * 4;
-    if (!matchesStart(idx)) continue;
-
-    visited.add(key);
-
-    data[idx] = fillRgb.r;
-    data[idx + 1] = fillRgb.g;
-    data[idx + 2] = fillRgb.b;
-    data[idx + 3] = 255;
-
-    stack.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
-  }
-
-  ctx.putImageData(imageData, 0, 0);
-}
+const LIVE_STROKE_INTERVAL = 300; // ms between updates of a stroke still being drawn
 
 export function DrawingCanvas({
   gameState,
+  timeRemaining,
   localPlayer,
+  liveDrawings,
+  teamCanvas,
   isHost,
   onSubmitDrawing,
-  onUpdateTime,
+  onDrawingProgress,
+  onTeamActions,
   onStartSlideshow,
 }: DrawingCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [actions, setActions] = useState<CanvasAction[]>([]);
+  const team = localPlayer ? getTeamOf(gameState, localPlayer.id) : undefined;
+  // One draft per drawing, so a telephone step or a new round starts blank.
+  // A team canvas lives with the host instead.
+  const draftKey = `${gameState.roomCode}-${gameState.round}-${gameState.chainStep}`;
+  const [actions, setActions] = useState<CanvasAction[]>(() =>
+    isHost || team ? [] : loadDrawingDraft<CanvasAction>(draftKey)
+  );
   const [currentAction, setCurrentAction] = useState<CanvasAction | null>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [selectedTool, setSelectedTool] = useState<DrawingTool | null>(null);
-  const [hasSubmitted, setHasSubmitted] = useState(false);
+  const [submittedHere, setHasSubmitted] = useState(!!localPlayer?.drawing);
+  // Any teammate can hand in the team's drawing
+  const hasSubmitted = submittedHere || (!!team && !!localPlayer?.drawing);
   const [selectedColor, setSelectedColor] = useState('#000000');
-
-  const unlockedTools = localPlayer ? getUnlockedTools(localPlayer.quizScore) : [];
-  const unlockedColors = localPlayer ? getUnlockedColors(localPlayer.quizScore) : [];
-  const participants = gameState.players.filter((p) => !p.isHost);
+  // Host only: the player whose canvas is shown enlarged
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  // How many finished actions the host has, and for which peer ID - a
+  // reconnected player sends everything again
+  const sentRef = useRef({ playerId: "", count: 0 });
+  const lastStrokeUpdateRef = useRef(0);
+  // Team mode: how many of this player's actions have gone to the host
+  const teamSentRef = useRef(0);
+
+  const unlockScore = localPlayer ? getUnlockScore(gameState, localPlayer) : 0;
+  const unlockedTools = localPlayer ? getUnlockedTools(unlockScore, gameState.quizQuestions.length, gameState.scoringModel, gameState.settings.unlockScale) : [];
+  const unlockedColors = localPlayer ? getUnlockedColors(unlockScore, gameState.quizQuestions.length, gameState.scoringModel, gameState.settings.unlockScale) : [];
+  const telephone = gameState.gameMode === "telephone";
+  // In a telephone step, only players whose chain reached them are drawing
+  const participants = gameState.players.filter(
+    (p) => !p.isHost && (!telephone || p.assignedSentence)
+  );
 
   // Check if player has unlocked any colors
   const hasColorOptions = unlockedColors.length > 0;
@@ -143,18 +78,6 @@ export function DrawingCanvas({
     }
   }, [unlockedTools, selectedTool]);
 
-  // Timer countdown (host controls)
-  useEffect(() => {
-    if (!isHost) return;
-    if (gameState.drawingTimeRemaining <= 0) return;
-
-    const interval = setInterval(() => {
-      onUpdateTime(gameState.drawingTimeRemaining - 1);
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [isHost, gameState.drawingTimeRemaining, onUpdateTime]);
-
   // Render canvas
   const renderCanvas = useCallback(() => {
     const canvas = canvasRef.current;
@@ -163,38 +86,61 @@ export function DrawingCanvas({
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
 
-    // Clear canvas with white background
-    ctx.fillStyle = "#ffffff";
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // Draw all actions
-    const allActions = currentAction ? [...actions, currentAction] : actions;
-
-    for (const action of allActions) {
-      if (action.type === 'fill' && action.fillX !== undefined && action.fillY !== undefined) {
-        floodFill(ctx, action.fillX, action.fillY, action.color, canvas.width, canvas.height);
-      } else if (action.type === 'stroke' && action.points) {
-        const strokeOptions = action.toolType === 'brush' 
-          ? { size: action.size, thinning: 0, smoothing: 0.7, streamline: 0.7 }
-          : { size: action.size, thinning: 0.5, smoothing: 0.5, streamline: 0.5 };
-
-        const outlinePoints = getStroke(
-          action.points.map((p) => [p.x, p.y, p.pressure || 0.5]),
-          strokeOptions
-        );
-
-        const pathData = getSvgPathFromStroke(outlinePoints);
-        const path = new Path2D(pathData);
-        ctx.fillStyle = action.color;
-        ctx.fill(path);
-      }
-    }
-  }, [actions, currentAction]);
+    // On a team canvas, own strokes the host hasn't sent back yet go on top
+    const ownActions = teamCanvas ? actions.slice(teamCanvas.received) : actions;
+    const baseActions = teamCanvas ? [...decodeDrawing(teamCanvas.drawing), ...ownActions] : ownActions;
+    const allActions = currentAction ? [...baseActions, currentAction] : baseActions;
+    renderActions(ctx, allActions);
+  }, [actions, currentAction, teamCanvas]);
 
   useEffect(() => {
     renderCanvas();
   }, [renderCanvas]);
 
+  // Keep a draft so the drawing survives a dropped connection or reload
+  useEffect(() => {
+    if (isHost || team || hasSubmitted) return;
+    saveDrawingDraft(draftKey, actions);
+  }, [isHost, team, hasSubmitted, draftKey, actions]);
+
+  // Stream the canvas to the host as it changes, for the teacher's live view
+  const sendProgress = useCallback(
+    (from: number, changed: CanvasAction[]) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const { width, height, actions: encoded } = encodeDrawing(changed, canvas.width, canvas.height);
+      onDrawingProgress({ from, actions: encoded, width, height });
+    },
+    [onDrawingProgress]
+  );
+
+  const playerId = localPlayer?.id;
+  useEffect(() => {
+    if (isHost || team || hasSubmitted || !playerId) return;
+    const sent = sentRef.current;
+    const samePlayer = sent.playerId === playerId;
+    if (samePlayer && sent.count === actions.length) return;
+    // After an undo or clear this is where the canvas now ends
+    const from = samePlayer ? Math.min(sent.count, actions.length) : 0;
+    sendProgress(from, actions.slice(from));
+    sentRef.current = { playerId, count: actions.length };
+  }, [isHost, team, hasSubmitted, playerId, actions, sendProgress]);
+
+  // Teammates get each stroke as soon as it's finished, by way of the host
+  useEffect(() => {
+    if (!team || hasSubmitted || teamSentRef.current >= actions.length) return;
+    onTeamActions(teamSentRef.current, actions.slice(teamSentRef.current));
+    teamSentRef.current = actions.length;
+  }, [team, hasSubmitted, actions, onTeamActions]);
+
+  useEffect(() => {
+    if (isHost || team || !currentAction) return;
+    const now = Date.now();
+    if (now - lastStrokeUpdateRef.current < LIVE_STROKE_INTERVAL) return;
+    lastStrokeUpdateRef.current = now;
+    sendProgress(actions.length, [currentAction]);
+  }, [isHost, team, currentAction, actions.length, sendProgress]);
+
   const getPointerPos = (e: React.PointerEvent): Point => {
     const canvas = canvasRef.current!;
     const rect = canvas.getBoundingClientRect();
@@ -204,6 +150,7 @@ export function DrawingCanvas({
       x: (e.clientX - rect.left) * scaleX,
       y: (e.clientY - rect.top) * scaleY,
       pressure: e.pressure,
+      t: Date.now(),
     };
   };
 
@@ -235,6 +182,7 @@ export function DrawingCanvas({
         toolType: 'fill',
         fillX: point.x,
         fillY: point.y,
+        t: point.t,
       };
       setActions((prev) => [...prev, fillAction]);
     } else {
@@ -280,9 +228,9 @@ export function DrawingCanvas({
     const canvas = canvasRef.current;
     if (!canvas) return;
     
-    const dataUrl = canvas.toDataURL("image/png");
-    onSubmitDrawing(dataUrl);
+    onSubmitDrawing(encodeDrawing(actions, canvas.width, canvas.height));
     setHasSubmitted(true);
+    clearDrawingDraft(draftKey);
   };
 
   const formatTime = (seconds: number) => {
@@ -291,47 +239,84 @@ export function DrawingCanvas({
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
-  const allPlayersSubmitted = participants.every((p) => p.drawingDataUrl);
+  // The host watches one canvas per team in team mode, one per player otherwise
+  const canvases = gameState.gameMode === "teams"
+    ? gameState.teams.map((t) => {
+        const members = getTeamMembers(gameState, t);
+        return {
+          id: t.id,
+          name: t.name,
+          sentence: members[0]?.assignedSentence,
+          drawing: members.find((p) => p.drawing)?.drawing,
+        };
+      }).filter((c) => c.sentence)
+    : participants.map((p) => ({
+        id: p.id,
+        name: p.name,
+        sentence: p.assignedSentence,
+        drawing: p.drawing,
+      }));
+  const allPlayersSubmitted = canvases.every((c) => c.drawing);
+  const nextLabel = telephone && !isLastChainStep(gameState)
+    ? "Pass It On ➡️"
+    : !telephone && gameState.settings.guessSentences
+    ? "Start Guessing 🤔"
+    : "Start Slideshow 🖼️";
+  const stepLabel = telephone
+    ? ` (step ${gameState.chainStep} of ${getChainLength(gameState)})`
+    : "";
+  const focusedCanvas = canvases.find((c) => c.id === focusedId);
+  const focusedDrawing = focusedCanvas && (focusedCanvas.drawing ?? liveDrawings[focusedCanvas.id]);
 
   // Host sees moderation view
   if (isHost) {
     return (
       <div className="drawing-phase">
         <div className="drawing-header">
-          <h2>🎨 Drawing in Progress</h2>
-          <div className={`timer ${gameState.drawingTimeRemaining <= 30 ? "warning" : ""}`}>
-            ⏱️ {formatTime(gameState.drawingTimeRemaining)}
+          <h2>🎨 Drawing in Progress{stepLabel}</h2>
+          <div className={`timer ${timeRemaining <= 30 ? "warning" : ""}`}>
+            ⏱️ {formatTime(timeRemaining)}
           </div>
         </div>
 
         <div className="host-drawing-view">
           <div className="progress-overview">
-            <h3>Player Progress</h3>
-            <div className="player-progress-list">
-              {participants.map((player) => (
-                <div key={player.id} className="player-progress-item drawing">
-                  <span className="player-name">{player.name}</span>
-                  <span className="prompt-preview">
-                    "{player.assignedSentence}"
-                  </span>
-                  <span className={`status ${player.drawingDataUrl ? "done" : "drawing"}`}>
-                    {player.drawingDataUrl ? "✅ Submitted" : "🎨 Drawing..."}
-                  </span>
-                </div>
-              ))}
+            <h3>Live Canvases</h3>
+            <div className="live-grid">
+              {canvases.map((canvas) => {
+                const drawing = canvas.drawing ?? liveDrawings[canvas.id];
+                return (
+                  <button
+                    key={canvas.id}
+                    className="live-card"
+                    onClick={() => setFocusedId(canvas.id)}
+                    title={`"${canvas.sentence}"`}
+                  >
+                    {drawing ? (
+                      <DrawingView drawing={drawing} label={`${canvas.name}'s canvas`} className="live-thumb" />
+                    ) : (
+                      <div className="live-thumb empty">Waiting...</div>
+                    )}
+                    <span className="player-name">{canvas.name}</span>
+                    <span className={`status ${canvas.drawing ? "done" : "drawing"}`}>
+                      {canvas.drawing ? "✅ Submitted" : "🎨 Drawing..."}
+                    </span>
+                  </button>
+                );
+              })}
             </div>
           </div>
 
           <div className="submission-stats">
             <div className="stat">
               <span className="stat-number">
-                {participants.filter((p) => p.drawingDataUrl).length}
+                {canvases.filter((c) => c.drawing).length}
               </span>
               <span className="stat-label">Submitted</span>
             </div>
             <div className="stat">
               <span className="stat-number">
-                {participants.filter((p) => !p.drawingDataUrl).length}
+                {canvases.filter((c) => !c.drawing).length}
               </span>
               <span className="stat-label">Still Drawing</span>
             </div>
@@ -341,16 +326,51 @@ export function DrawingCanvas({
             <button
               className="btn-primary"
               onClick={onStartSlideshow}
-              disabled={!allPlayersSubmitted && gameState.drawingTimeRemaining > 0}
+              disabled={!allPlayersSubmitted && timeRemaining > 0}
             >
               {allPlayersSubmitted
-                ? "Start Slideshow 🖼️"
-                : gameState.drawingTimeRemaining <= 0
-                ? "Time's Up! Start Slideshow 🖼️"
-                : `Waiting for drawings... (${formatTime(gameState.drawingTimeRemaining)})`}
+                ? nextLabel
+                : timeRemaining <= 0
+                ? `Time's Up! ${nextLabel}`
+                : `Waiting for drawings... (${formatTime(timeRemaining)})`}
             </button>
           </div>
         </div>
+
+        {focusedCanvas && (
+          <div className="live-focus" onClick={() => setFocusedId(null)}>
+            <div className="live-focus-card" onClick={(e) => e.stopPropagation()}>
+              <div className="live-focus-header">
+                <h3>{focusedCanvas.name}</h3>
+                <button className="btn-secondary" onClick={() => setFocusedId(null)}>
+                  ✕ Close
+                </button>
+              </div>
+              <p className="prompt-preview">&quot;{focusedCanvas.sentence}&quot;</p>
+              {focusedDrawing ? (
+                <DrawingView
+                  drawing={focusedDrawing}
+                  label={`${focusedCanvas.name}'s canvas`}
+                  className="drawing-image"
+                />
+              ) : (
+                <p className="waiting-text">Nothing drawn yet</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (telephone && !localPlayer?.assignedSentence) {
+    return (
+      <div className="drawing-phase">
+        <div className="drawing-header">
+          <h2>📞 Sit Tight!</h2>
+          <div className="timer">⏱️ {formatTime(timeRemaining)}</div>
+        </div>
+        <p className="waiting-text">No chain has reached you this step - you&apos;ll be back in soon.</p>
       </div>
     );
   }
@@ -360,11 +380,21 @@ export function DrawingCanvas({
     <div className="drawing-phase">
       <div className="drawing-header">
         <h2>🎨 Time to Draw!</h2>
-        <div className={`timer ${gameState.drawingTimeRemaining <= 30 ? "warning" : ""}`}>
-          ⏱️ {formatTime(gameState.drawingTimeRemaining)}
+        <div className={`timer ${timeRemaining <= 30 ? "warning" : ""}`}>
+          ⏱️ {formatTime(timeRemaining)}
         </div>
       </div>
 
+      {team && (
+        <p className="team-banner" style={{ borderColor: team.color }}>
+          👥 Drawing together with {team.name}:{" "}
+          {getTeamMembers(gameState, team)
+            .filter((p) => p.id !== localPlayer?.id)
+            .map((p) => p.name)
+            .join(", ") || "nobody else yet"}
+        </p>
+      )}
+
       {localPlayer?.assignedSentence && (
         <div className="prompt">
           <p>Draw this:</p>
@@ -413,10 +443,11 @@ export function DrawingCanvas({
           )}
 
           <div className="actions">
-            <button onClick={handleUndo} disabled={actions.length === 0 || hasSubmitted}>
+            {/* Strokes on a shared canvas are already on teammates' screens */}
+            <button onClick={handleUndo} disabled={actions.length === 0 || hasSubmitted || !!team}>
               ↩️ Undo
             </button>
-            <button onClick={handleClear} disabled={actions.length === 0 || hasSubmitted}>
+            <button onClick={handleClear} disabled={actions.length === 0 || hasSubmitted || !!team}>
               🗑️ Clear
             </button>
           </div>
@@ -424,8 +455,8 @@ export function DrawingCanvas({
 
         <canvas
           ref={canvasRef}
-          width={600}
-          height={400}
+          width={gameState.settings.canvasWidth}
+          height={gameState.settings.canvasHeight}
           className={`canvas ${selectedTool?.type === 'fill' ? 'fill-cursor' : ''}`}
           onPointerDown={handlePointerDown}
           onPointerMove={handlePointerMove}
@@ -441,7 +472,9 @@ export function DrawingCanvas({
         ) : (
           <div className="submitted-text">
             <p>Drawing submitted! ✅</p>
-            <p className="waiting-text">Waiting for other players...</p>
+            <p className="waiting-text">
+              {team ? "Your team handed it in! Waiting for the other teams..." : "Waiting for other players..."}
+            </p>
           </div>
         )}
       </div>
@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import { decodeDrawing, drawActions, renderActions } from "../lib/drawing";
+import { getDrawingLength, getReplayFrame, getReplayPosition } from "../lib/replay";
+import { Drawing, SlideReplay } from "../lib/types";
+
+interface DrawingReplayProps {
+  drawing: Drawing;
+  replay: SlideReplay;
+  clockOffset: number;
+  label: string;
+  className?: string;
+}
+
+// Plays a drawing back stroke by stroke, in step with the host's clock
+export function DrawingReplay({ drawing, replay, clockOffset, label, className }: DrawingReplayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const scale = typeof window === "undefined" ? 1 : window.devicePixelRatio || 1;
+  const actions = useMemo(() => decodeDrawing(drawing), [drawing]);
+  const length = useMemo(() => getDrawingLength(drawing), [drawing]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    // Finished actions are drawn once onto an offscreen copy, so each frame
+    // only has to add the stroke in progress
+    const finished = document.createElement("canvas");
+    finished.width = canvas.width;
+    finished.height = canvas.height;
+    const finishedCtx = finished.getContext("2d");
+    if (!finishedCtx) return;
+    renderActions(finishedCtx, [], scale);
+    let drawn = 0;
+    let frame = 0;
+
+    const step = () => {
+      const position = getReplayPosition(replay, length, Date.now() + clockOffset);
+      const { done, partial } = getReplayFrame(actions, position);
+      if (done > drawn) {
+        drawActions(finishedCtx, actions.slice(drawn, done), scale);
+        drawn = done;
+      }
+      ctx.drawImage(finished, 0, 0);
+      if (partial) {
+        drawActions(ctx, [partial], scale);
+      }
+      // A paused replay stays on this frame; resuming brings a new replay
+      // and so a fresh loop
+      if (position < length && !replay.paused) {
+        frame = requestAnimationFrame(step);
+      }
+    };
+    step();
+    return () => cancelAnimationFrame(frame);
+  }, [actions, length, replay, clockOffset, scale]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={Math.round(drawing.width * scale)}
+      height={Math.round(drawing.height * scale)}
+      className={className}
+      role="img"
+      aria-label={label}
+    />
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { decodeDrawing, renderActions } from "../lib/drawing";
+import { Drawing } from "../lib/types";
+
+interface DrawingViewProps {
+  drawing: Drawing;
+  label: string;
+  className?: string;
+}
+
+// Redraws a submitted drawing from its vectors, at the screen's pixel density
+export function DrawingView({ drawing, label, className }: DrawingViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const scale = typeof window === "undefined" ? 1 : window.devicePixelRatio || 1;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    renderActions(ctx, decodeDrawing(drawing), scale);
+  }, [drawing, scale]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={Math.round(drawing.width * scale)}
+      height={Math.round(drawing.height * scale)}
+      className={className}
+      role="img"
+      aria-label={label}
+    />
+  );
+}
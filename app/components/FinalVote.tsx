@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import { getGalleryPlayers } from "../lib/replay";
+import { getArtistName } from "../lib/teams";
+import { GameState, Player } from "../lib/types";
+import { getVoteTargets, hasFinalVoted, VOTE_CATEGORIES } from "../lib/voting";
+import { DrawingView } from "./DrawingView";
+
+interface FinalVoteProps {
+  gameState: GameState;
+  timeRemaining: number; // seconds left on the current countdown
+  localPlayer: Player | null;
+  isHost: boolean;
+  onSubmitVote: (picks: Record<string, string>, ranking: string[]) => void;
+  onShowResults: () => void;
+}
+
+// After the slideshow: a drawing for each award, and/or every drawing ranked
+export function FinalVote({
+  gameState,
+  timeRemaining,
+  localPlayer,
+  isHost,
+  onSubmitVote,
+  onShowResults,
+}: FinalVoteProps) {
+  const [picks, setPicks] = useState<Record<string, string>>({});
+  const [ranking, setRanking] = useState<string[]>([]);
+  const { categoryVoting, rankedVoting } = gameState.settings;
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  };
+
+  const header = (
+    <div className="drawing-header">
+      <h2>🗳️ Final Vote</h2>
+      <div className={`timer ${timeRemaining <= 10 ? "warning" : ""}`}>
+        ⏱️ {formatTime(timeRemaining)}
+      </div>
+    </div>
+  );
+
+  // Host sees how many ballots are in, but not what's on them until the results
+  if (isHost) {
+    const voters = gameState.players.filter((p) => !p.isHost);
+    const voted = voters.filter((p) => hasFinalVoted(gameState, p.id));
+
+    return (
+      <div className="drawing-phase">
+        {header}
+
+        <div className="submission-stats">
+          <div className="stat">
+            <span className="stat-number">{voted.length}</span>
+            <span className="stat-label">Voted</span>
+          </div>
+          <div className="stat">
+            <span className="stat-number">{voters.length - voted.length}</span>
+            <span className="stat-label">Still Voting</span>
+          </div>
+        </div>
+
+        <div className="gallery-strip">
+          {getGalleryPlayers(gameState).map((artist) => (
+            <div key={artist.id} className="guess-card">
+              <DrawingView drawing={artist.drawing!} label={`Drawing by ${getArtistName(gameState, artist)}`} className="live-thumb" />
+              <span className="player-name">🎨 {getArtistName(gameState, artist)}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="host-controls">
+          <button className="btn-primary" onClick={onShowResults}>
+            {voted.length === voters.length ? "Show Results 🏆" : `Show Results Now 🏆 (${voted.length}/${voters.length} voted)`}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const targets = localPlayer ? getVoteTargets(gameState, localPlayer.id) : [];
+  const voted = !!localPlayer && hasFinalVoted(gameState, localPlayer.id);
+
+  // Tapping a drawing puts it next in the ranking; tapping it again takes it out
+  const toggleRanked = (artistId: string) =>
+    setRanking((prev) =>
+      prev.includes(artistId) ? prev.filter((id) => id !== artistId) : [...prev, artistId]
+    );
+
+  if (voted || targets.length === 0) {
+    return (
+      <div className="drawing-phase">
+        {header}
+        <p className="submitted-text">
+          {voted ? "Vote counted! ✅" : "There's nothing for you to vote on this time."}
+        </p>
+        <p className="waiting-text">Waiting for the others...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="drawing-phase">
+      {header}
+
+      {categoryVoting &&
+        VOTE_CATEGORIES.map((category) => (
+          <div key={category.id} className="vote-section">
+            <h3>{category.label}</h3>
+            <div className="gallery-strip">
+              {targets.map((artist) => (
+                <button
+                  key={artist.id}
+                  className={`guess-card vote-option ${picks[category.id] === artist.id ? "active" : ""}`}
+                  onClick={() => setPicks({ ...picks, [category.id]: artist.id })}
+                >
+                  <DrawingView drawing={artist.drawing!} label={`Drawing by ${getArtistName(gameState, artist)}`} className="live-thumb" />
+                  <span className="player-name">{getArtistName(gameState, artist)}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+
+      {rankedVoting && (
+        <div className="vote-section">
+          <h3>🏅 Rank the Drawings</h3>
+          <p className="instruction">Tap them in order, favourite first - you don&apos;t have to rank them all.</p>
+          <div className="gallery-strip">
+            {targets.map((artist) => {
+              const place = ranking.indexOf(artist.id);
+              return (
+                <button
+                  key={artist.id}
+                  className={`guess-card vote-option ${place >= 0 ? "active" : ""}`}
+                  onClick={() => toggleRanked(artist.id)}
+                >
+                  {place >= 0 && <span className="rank-badge">{place + 1}</span>}
+                  <DrawingView drawing={artist.drawing!} label={`Drawing by ${getArtistName(gameState, artist)}`} className="live-thumb" />
+                  <span className="player-name">{getArtistName(gameState, artist)}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <button
+        className="btn-primary"
+        onClick={() => onSubmitVote(picks, ranking)}
+        disabled={Object.keys(picks).length === 0 && ranking.length === 0}
+      >
+        ✅ Submit Vote
+      </button>
+    </div>
+  );
+}
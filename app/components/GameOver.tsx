@@ -0,0 +1,78 @@
+"use client";
+
+import { useMemo } from "react";
+import { getStandings, getTeamStandings } from "../lib/rounds";
+import { getTeamOf } from "../lib/teams";
+import { GameState, Player } from "../lib/types";
+import { StandingsTable } from "./StandingsTable";
+import { TeamStandingsTable } from "./TeamStandingsTable";
+
+interface GameOverProps {
+  gameState: GameState;
+  localPlayer: Player | null;
+  isHost: boolean;
+  onPlayAgain: () => void;
+}
+
+const PODIUM = ["🥇", "🥈", "🥉"];
+
+export function GameOver({ gameState, localPlayer, isHost, onPlayAgain }: GameOverProps) {
+  const standings = useMemo(() => getStandings(gameState), [gameState]);
+  const teamStandings = useMemo(() => getTeamStandings(gameState), [gameState]);
+  const teamMode = gameState.gameMode === "teams";
+  const localTeamId = localPlayer ? getTeamOf(gameState, localPlayer.id)?.id : undefined;
+  const roundCount = gameState.roundHistory.length;
+
+  return (
+    <div className="leaderboard game-over">
+      <h1>🎉 Game Over!</h1>
+      <p className="game-over-subtitle">
+        Final standings after {roundCount} round{roundCount !== 1 ? "s" : ""}
+      </p>
+
+      {teamMode && teamStandings.length > 0 && (
+        <div className="podium">
+          {teamStandings.slice(0, 3).map((standing, index) => (
+            <div key={standing.teamId} className={`podium-place place-${index + 1}`}>
+              <span className="medal">{PODIUM[index]}</span>
+              <span className="player-name">
+                {standing.name}
+                {standing.teamId === localTeamId && <span className="you-badge">YOU</span>}
+              </span>
+              <span className="podium-points">{standing.total} pts</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!teamMode && standings.length > 0 && (
+        <div className="podium">
+          {standings.slice(0, 3).map((standing, index) => (
+            <div key={standing.playerId} className={`podium-place place-${index + 1}`}>
+              <span className="medal">{PODIUM[index]}</span>
+              <span className="player-name">
+                {standing.name}
+                {standing.playerId === localPlayer?.id && <span className="you-badge">YOU</span>}
+              </span>
+              <span className="podium-points">{standing.total} pts</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {teamMode && <TeamStandingsTable standings={teamStandings} localTeamId={localTeamId} />}
+
+      <StandingsTable standings={standings} localPlayerId={localPlayer?.id} />
+
+      {isHost ? (
+        <div className="host-controls">
+          <button className="btn-primary" onClick={onPlayAgain}>
+            🔄 Play Again
+          </button>
+        </div>
+      ) : (
+        <p className="waiting-text">Waiting for host to start a new game...</p>
+      )}
+    </div>
+  );
+}
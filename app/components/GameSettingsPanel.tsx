@@ -0,0 +1,209 @@
+"use client";
+
+import {
+  CANVAS_SIZES,
+  GALLERY_ORDERS,
+  normalizeSettings,
+  NumericSetting,
+  SETTING_LIMITS,
+  SLIDE_ADVANCES,
+  UNLOCK_PRESETS,
+  VOTING_SCHEMES,
+} from "../lib/settings";
+import { GalleryOrder, GameSettings, SlideAdvance, VotingScheme } from "../lib/types";
+
+interface GameSettingsPanelProps {
+  settings: GameSettings;
+  onChange: (settings: GameSettings) => void;
+}
+
+const DURATION_FIELDS: { key: NumericSetting; label: string }[] = [
+  { key: "quizDuration", label: "Quiz time (self-paced)" },
+  { key: "questionDuration", label: "Time per question (classroom)" },
+  { key: "revealDuration", label: "Answer reveal" },
+  { key: "drawingDuration", label: "Drawing time" },
+  { key: "guessDuration", label: "Guessing / describing time" },
+  { key: "replayDuration", label: "Drawing replay" },
+  { key: "slideDuration", label: "Voting time per drawing" },
+  { key: "finalVoteDuration", label: "Awards and ranked vote" },
+];
+
+export function GameSettingsPanel({ settings, onChange }: GameSettingsPanelProps) {
+  const update = (changes: Partial<GameSettings>) =>
+    onChange(normalizeSettings({ ...settings, ...changes }));
+
+  const canvasSize = CANVAS_SIZES.findIndex(
+    (size) => size.width === settings.canvasWidth && size.height === settings.canvasHeight
+  );
+
+  return (
+    <div className="moderation-panel">
+      <h3>⚙️ Game Settings</h3>
+
+      {DURATION_FIELDS.map(({ key, label }) => (
+        <label key={key} className="moderation-option">
+          {label}
+          <input
+            type="number"
+            min={SETTING_LIMITS[key].min}
+            max={SETTING_LIMITS[key].max}
+            value={settings[key]}
+            onChange={(e) => update({ [key]: Number(e.target.value) })}
+          />
+          seconds
+        </label>
+      ))}
+
+      <label className="moderation-option">
+        Rounds
+        <input
+          type="number"
+          min={SETTING_LIMITS.rounds.min}
+          max={SETTING_LIMITS.rounds.max}
+          value={settings.rounds}
+          onChange={(e) => update({ rounds: Number(e.target.value) })}
+        />
+      </label>
+
+      <label className="moderation-option">
+        <input
+          type="checkbox"
+          checked={settings.guessSentences}
+          onChange={(e) => update({ guessSentences: e.target.checked })}
+        />
+        Guess each drawing&apos;s sentence before the slideshow (classic mode)
+      </label>
+
+      <label className="moderation-option">
+        Voting on each drawing
+        <select
+          value={settings.voting}
+          onChange={(e) => update({ voting: e.target.value as VotingScheme })}
+        >
+          {VOTING_SCHEMES.map((option) => (
+            <option key={option.scheme} value={option.scheme}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="moderation-option">
+        <input
+          type="checkbox"
+          checked={settings.categoryVoting}
+          onChange={(e) => update({ categoryVoting: e.target.checked })}
+        />
+        Vote for awards after the slideshow (funniest, most accurate, best art)
+      </label>
+
+      <label className="moderation-option">
+        <input
+          type="checkbox"
+          checked={settings.rankedVoting}
+          onChange={(e) => update({ rankedVoting: e.target.checked })}
+        />
+        Rank every drawing after the slideshow to pick a class favourite
+      </label>
+
+      <label className="moderation-option">
+        <input
+          type="checkbox"
+          checked={settings.anonymousVoting}
+          onChange={(e) => update({ anonymousVoting: e.target.checked })}
+        />
+        Keep artists anonymous until the votes on their drawing are in
+      </label>
+
+      <label className="moderation-option">
+        Slideshow order
+        <select
+          value={settings.galleryOrder}
+          onChange={(e) => update({ galleryOrder: e.target.value as GalleryOrder })}
+        >
+          {GALLERY_ORDERS.map((option) => (
+            <option key={option.order} value={option.order}>
+              {option.label}
+              {!option.anonymous && settings.anonymousVoting ? " (shuffled while anonymous)" : ""}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="moderation-option">
+        Moving through the slideshow
+        <select
+          value={settings.slideAdvance}
+          onChange={(e) => update({ slideAdvance: e.target.value as SlideAdvance })}
+        >
+          {SLIDE_ADVANCES.map((option) => (
+            <option key={option.advance} value={option.advance}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="moderation-option">
+        Telephone chain steps
+        <input
+          type="number"
+          min={SETTING_LIMITS.chainSteps.min}
+          max={SETTING_LIMITS.chainSteps.max}
+          value={settings.chainSteps}
+          onChange={(e) => update({ chainSteps: Number(e.target.value) })}
+        />
+      </label>
+
+      <label className="moderation-option">
+        Players needed to start
+        <input
+          type="number"
+          min={SETTING_LIMITS.minPlayers.min}
+          max={SETTING_LIMITS.minPlayers.max}
+          value={settings.minPlayers}
+          onChange={(e) => update({ minPlayers: Number(e.target.value) })}
+        />
+      </label>
+
+      <label className="moderation-option">
+        Canvas size
+        <select
+          value={canvasSize}
+          onChange={(e) => {
+            const size = CANVAS_SIZES[Number(e.target.value)];
+            update({ canvasWidth: size.width, canvasHeight: size.height });
+          }}
+        >
+          {canvasSize === -1 && (
+            <option value={-1}>
+              Custom ({settings.canvasWidth}×{settings.canvasHeight})
+            </option>
+          )}
+          {CANVAS_SIZES.map((size, index) => (
+            <option key={size.label} value={index}>
+              {size.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="moderation-option">
+        Tool unlocks
+        <select
+          value={settings.unlockScale}
+          onChange={(e) => update({ unlockScale: Number(e.target.value) })}
+        >
+          {!UNLOCK_PRESETS.some((preset) => preset.scale === settings.unlockScale) && (
+            <option value={settings.unlockScale}>Custom (×{settings.unlockScale})</option>
+          )}
+          {UNLOCK_PRESETS.map((preset) => (
+            <option key={preset.label} value={preset.scale}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import { getChainLength, isLastChainStep } from "../lib/telephone";
+import { GameState, Player } from "../lib/types";
+import { DrawingView } from "./DrawingView";
+
+interface GuessRoundProps {
+  gameState: GameState;
+  timeRemaining: number; // seconds left on the current countdown
+  localPlayer: Player | null;
+  isHost: boolean;
+  onSubmitGuess: (guess: string) => void;
+  onPassOn: () => void;
+}
+
+// Telephone mode: describe the drawing that was passed to you
+export function GuessRound({
+  gameState,
+  timeRemaining,
+  localPlayer,
+  isHost,
+  onSubmitGuess,
+  onPassOn,
+}: GuessRoundProps) {
+  const [guess, setGuess] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+
+  const handleSubmit = () => {
+    if (!guess.trim()) return;
+    onSubmitGuess(guess.trim());
+    setSubmitted(true);
+  };
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  };
+
+  const stepLabel = `step ${gameState.chainStep} of ${getChainLength(gameState)}`;
+
+  // Host sees everyone's progress
+  if (isHost) {
+    const guessers = gameState.players.filter((p) => !p.isHost && p.assignedDrawing);
+    const allGuessed = guessers.every((p) => p.guess);
+    const nextLabel = isLastChainStep(gameState) ? "Start Slideshow 🖼️" : "Pass It On ➡️";
+
+    return (
+      <div className="drawing-phase">
+        <div className="drawing-header">
+          <h2>💬 Describing Drawings ({stepLabel})</h2>
+          <div className={`timer ${timeRemaining <= 10 ? "warning" : ""}`}>
+            ⏱️ {formatTime(timeRemaining)}
+          </div>
+        </div>
+
+        <div className="live-grid">
+          {guessers.map((player) => (
+            <div key={player.id} className="live-card">
+              <DrawingView
+                drawing={player.assignedDrawing!}
+                label={`Drawing for ${player.name} to describe`}
+                className="live-thumb"
+              />
+              <span className="player-name">{player.name}</span>
+              <span className={`status ${player.guess ? "done" : "drawing"}`}>
+                {player.guess ? `"${player.guess}"` : "💭 Thinking..."}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="host-controls">
+          <button
+            className="btn-primary"
+            onClick={onPassOn}
+            disabled={!allGuessed && timeRemaining > 0}
+          >
+            {allGuessed
+              ? nextLabel
+              : timeRemaining <= 0
+              ? `Time's Up! ${nextLabel}`
+              : `Waiting for descriptions... (${formatTime(timeRemaining)})`}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const drawing = localPlayer?.assignedDrawing;
+  if (!drawing) {
+    return (
+      <div className="drawing-phase">
+        <div className="drawing-header">
+          <h2>📞 Sit Tight!</h2>
+          <div className="timer">⏱️ {formatTime(timeRemaining)}</div>
+        </div>
+        <p className="waiting-text">No drawing has reached you this step - you&apos;ll be back in soon.</p>
+      </div>
+    );
+  }
+
+  const wasRejected = !!localPlayer?.guessRejected;
+  const hasGuessed = localPlayer?.guess !== undefined;
+
+  return (
+    <div className="drawing-phase guess-round">
+      <div className="drawing-header">
+        <h2>💬 What Is This?</h2>
+        <div className={`timer ${timeRemaining <= 10 ? "warning" : ""}`}>
+          ⏱️ {formatTime(timeRemaining)}
+        </div>
+      </div>
+
+      <DrawingView drawing={drawing} label="The drawing to describe" className="drawing-image" />
+
+      {!hasGuessed && (!submitted || wasRejected) ? (
+        <div className="submission-form">
+          {wasRejected && (
+            <p className="rejected-text">
+              🚫 That description wasn&apos;t accepted - please write a different one.
+            </p>
+          )}
+          <textarea
+            placeholder="Describe the drawing in a sentence - the next player will draw it!"
+            value={guess}
+            onChange={(e) => setGuess(e.target.value)}
+            maxLength={100}
+            rows={2}
+          />
+          <button className="btn-primary" onClick={handleSubmit} disabled={!guess.trim()}>
+            Pass It On ✨
+          </button>
+        </div>
+      ) : (
+        <div className="submitted-text">
+          <p>Description sent! ✅</p>
+          <p className="waiting-text">Waiting for other players...</p>
+        </div>
+      )}
+    </div>
+  );
+}
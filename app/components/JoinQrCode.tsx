@@ -0,0 +1,34 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import QRCode from "qrcode";
+import { getJoinUrl } from "../lib/joinLink";
+import { RoomAddress } from "../lib/transport";
+
+interface JoinQrCodeProps {
+  roomCode: string;
+  address: RoomAddress | null;
+  size?: number;
+}
+
+// Drawn in the browser, so the room code never goes to a QR service
+export function JoinQrCode({ roomCode, address, size = 180 }: JoinQrCodeProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    QRCode.toCanvas(canvas, getJoinUrl(roomCode, address), { width: size, margin: 1 }).catch((err) => {
+      console.error("Could not draw the join QR code:", err);
+    });
+  }, [roomCode, address, size]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="join-qr"
+      role="img"
+      aria-label={`QR code to join room ${roomCode}`}
+    />
+  );
+}
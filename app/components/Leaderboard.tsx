@@ -1,43 +1,76 @@
 "use client";
 
 import { useMemo } from "react";
+import { getGuessPoints } from "../lib/promptGuessing";
+import { getGalleryPlayers } from "../lib/replay";
+import { getStandings, getTeamStandings, isFinalRound } from "../lib/rounds";
+import { getArtistName, getTeamOf, isSameArtist, isTeamRepresentative } from "../lib/teams";
 import { GameState, Player } from "../lib/types";
+import { getCategoryResults, getRankedChoiceResult, getRating, rankWithTies } from "../lib/voting";
+import { ChainView } from "./ChainView";
+import { DrawingView } from "./DrawingView";
+import { StandingsTable } from "./StandingsTable";
+import { TeamStandingsTable } from "./TeamStandingsTable";
+
+// The top three places, with everyone tied for one of them
+function getTopThree<T>(items: T[], score: (item: T) => number) {
+  return rankWithTies(items, score).filter((entry) => entry.place <= 3);
+}
+
+function isTie(entries: { place: number }[], place: number): boolean {
+  return entries.filter((entry) => entry.place === place).length > 1;
+}
 
 interface LeaderboardProps {
   gameState: GameState;
   localPlayer: Player | null;
   isHost: boolean;
-  onPlayAgain: () => void;
+  onSetDrawingHidden: (playerId: string, hidden: boolean) => void;
+  onNextRound: () => void;
+  onEndGame: () => void;
 }
 
 export function Leaderboard({
   gameState,
   localPlayer,
   isHost,
-  onPlayAgain,
+  onSetDrawingHidden,
+  onNextRound,
+  onEndGame,
 }: LeaderboardProps) {
-  const { topLiked, topDisliked, participants } = useMemo(() => {
-    // Only show participants (non-host players)
-    const participantsWithDrawings = gameState.players.filter(
-      (p) => !p.isHost && p.drawingDataUrl
-    );
-
-    // Sort by thumbs up (descending)
-    const sortedByLikes = [...participantsWithDrawings].sort(
-      (a, b) => b.thumbsUp - a.thumbsUp
-    );
-
-    // Sort by thumbs down (descending)
-    const sortedByDislikes = [...participantsWithDrawings].sort(
-      (a, b) => b.thumbsDown - a.thumbsDown
-    );
+  const multiRound = gameState.settings.rounds > 1;
+  const finalRound = isFinalRound(gameState);
+  const standings = useMemo(() => getStandings(gameState), [gameState]);
+  const teamStandings = useMemo(() => getTeamStandings(gameState), [gameState]);
+  const teamMode = gameState.gameMode === "teams";
+  const isOwn = (player: Player) => !!localPlayer && isSameArtist(gameState, player.id, localPlayer.id);
+
+  const { topLiked, topDisliked, topRated, topGuessers, participants } = useMemo(() => {
+    // Only show participants (non-host players), minus drawings the teacher hid
+    const participantsWithDrawings = getGalleryPlayers(gameState);
+    const rated = participantsWithDrawings.filter((p) => getRating(gameState, p.drawingId).count > 0);
+
+    // Guessers and artists alike
+    const guessScores = gameState.players
+      .filter((p) => !p.isHost)
+      .map((player) => ({ player, points: getGuessPoints(gameState, player.id) }))
+      .filter((entry) => entry.points > 0);
 
     return {
-      topLiked: sortedByLikes.slice(0, 3),
-      topDisliked: sortedByDislikes.slice(0, 3).filter((p) => p.thumbsDown > 0),
-      participants: participantsWithDrawings,
+      topLiked: getTopThree(participantsWithDrawings.filter((p) => p.thumbsUp > 0), (p) => p.thumbsUp),
+      topDisliked: getTopThree(participantsWithDrawings.filter((p) => p.thumbsDown > 0), (p) => p.thumbsDown),
+      topRated: getTopThree(rated, (p) => getRating(gameState, p.drawingId).average),
+      topGuessers: getTopThree(guessScores, (entry) => entry.points),
+      // The teacher still sees hidden drawings here, so they can bring them back
+      participants: gameState.players.filter(
+        (p) =>
+          !p.isHost &&
+          p.drawing &&
+          (isHost || !p.drawingHidden) &&
+          isTeamRepresentative(gameState, p)
+      ),
     };
-  }, [gameState.players]);
+  }, [gameState, isHost]);
 
   const getMedal = (index: number) => {
     switch (index) {
@@ -52,117 +85,262 @@ export function Leaderboard({
     }
   };
 
+  const categoryResults = useMemo(() => getCategoryResults(gameState), [gameState]);
+  const rankedResult = useMemo(() => getRankedChoiceResult(gameState), [gameState]);
+  const stars = gameState.settings.voting === "stars";
+
+  // The drawings that won an award, by artist ID
+  const getWinners = (ids: string[]) =>
+    ids
+      .map((id) => gameState.players.find((p) => p.id === id))
+      .filter((p): p is Player => !!p?.drawing);
+
+  const renderEntry = (player: Player, place: number, votes: string, tie: boolean) => (
+    <li key={player.id} className={`rank-${place}`}>
+      <div className="player-entry">
+        <span className="medal">{getMedal(place - 1)}</span>
+        <div className="player-info">
+          <span className="player-name">
+            {getArtistName(gameState, player)}
+            {isOwn(player) && (
+              <span className="you-badge">YOU</span>
+            )}
+          </span>
+          <span className="votes">{votes}</span>
+          {tie && <span className="tie-badge">🤝 Tie</span>}
+        </div>
+        {player.drawing && (
+          <div className="mini-drawing">
+            <DrawingView drawing={player.drawing} label={`Drawing by ${getArtistName(gameState, player)}`} />
+          </div>
+        )}
+      </div>
+      {player.assignedSentence && (
+        <p className="prompt">&quot;{player.assignedSentence}&quot;</p>
+      )}
+    </li>
+  );
+
   return (
     <div className="leaderboard">
-      <h1>🏆 And the Winners Are...</h1>
-
-      <div className="leaderboard-sections">
-        <div className="section liked">
-          <h2>👍 Most Liked Drawings</h2>
-          {topLiked.length > 0 ? (
-            <ol>
-              {topLiked.map((player, index) => (
-                <li key={player.id} className={`rank-${index + 1}`}>
-                  <div className="player-entry">
-                    <span className="medal">{getMedal(index)}</span>
-                    <div className="player-info">
-                      <span className="player-name">
-                        {player.name}
-                        {player.id === localPlayer?.id && (
-                          <span className="you-badge">YOU</span>
-                        )}
-                      </span>
-                      <span className="votes">👍 {player.thumbsUp}</span>
-                    </div>
-                    {player.drawingDataUrl && (
-                      <div className="mini-drawing">
-                        {/* eslint-disable-next-line @next/next/no-img-element */}
-                        <img
-                          src={player.drawingDataUrl}
-                          alt={`Drawing by ${player.name}`}
-                        />
-                      </div>
-                    )}
-                  </div>
-                  {player.assignedSentence && (
-                    <p className="prompt">"{player.assignedSentence}"</p>
-                  )}
-                </li>
-              ))}
-            </ol>
-          ) : (
-            <p className="no-results">No votes yet!</p>
-          )}
+      <h1>
+        {multiRound
+          ? `🏆 Round ${gameState.round} of ${gameState.settings.rounds}`
+          : "🏆 And the Winners Are..."}
+      </h1>
+
+      {teamMode && (
+        <div className="section standings-section">
+          <h2>👥 Team Rankings</h2>
+          <TeamStandingsTable
+            standings={teamStandings}
+            localTeamId={localPlayer ? getTeamOf(gameState, localPlayer.id)?.id : undefined}
+          />
         </div>
+      )}
 
-        <div className="section disliked">
-          <h2>👎 Most Controversial</h2>
-          {topDisliked.length > 0 ? (
-            <ol>
-              {topDisliked.map((player, index) => (
-                <li key={player.id} className={`rank-${index + 1}`}>
-                  <div className="player-entry">
-                    <span className="medal">{getMedal(index)}</span>
-                    <div className="player-info">
-                      <span className="player-name">
-                        {player.name}
-                        {player.id === localPlayer?.id && (
-                          <span className="you-badge">YOU</span>
-                        )}
-                      </span>
-                      <span className="votes">👎 {player.thumbsDown}</span>
-                    </div>
-                    {player.drawingDataUrl && (
-                      <div className="mini-drawing">
-                        {/* eslint-disable-next-line @next/next/no-img-element */}
-                        <img
-                          src={player.drawingDataUrl}
-                          alt={`Drawing by ${player.name}`}
-                        />
-                      </div>
-                    )}
-                  </div>
-                  {player.assignedSentence && (
-                    <p className="prompt">"{player.assignedSentence}"</p>
-                  )}
-                </li>
-              ))}
-            </ol>
-          ) : (
-            <p className="no-results">Everyone was loved! 💕</p>
-          )}
+      {multiRound && !teamMode && (
+        <div className="section standings-section">
+          <h2>📊 Standings So Far</h2>
+          <StandingsTable standings={standings} localPlayerId={localPlayer?.id} />
         </div>
-      </div>
+      )}
 
-      <div className="all-drawings">
-        <h2>🖼️ All Drawings</h2>
-        <div className="drawings-grid">
-          {participants.map((player) => (
-              <div key={player.id} className="drawing-card">
-                {/* eslint-disable-next-line @next/next/no-img-element */}
-                <img
-                  src={player.drawingDataUrl}
-                  alt={`Drawing by ${player.name}`}
-                />
-                <div className="card-info">
-                  <span className="artist">{player.name}</span>
-                  <span className="reactions">
-                    👍 {player.thumbsUp} | 👎 {player.thumbsDown}
-                  </span>
+      {gameState.gameMode === "telephone" ? (
+        <div className="all-drawings">
+          <h2>📞 All Chains</h2>
+          <div className="all-chains">
+            {gameState.chains.map((chain) => (
+              <ChainView key={chain.id} chain={chain} />
+            ))}
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="leaderboard-sections">
+            {stars ? (
+              <div className="section liked">
+                <h2>⭐ Top Rated Drawings</h2>
+                {topRated.length > 0 ? (
+                  <ol>
+                    {topRated.map(({ item: player, place }) => {
+                      const { average, count } = getRating(gameState, player.drawingId);
+                      return renderEntry(
+                        player,
+                        place,
+                        `⭐ ${average.toFixed(1)} (${count})`,
+                        isTie(topRated, place)
+                      );
+                    })}
+                  </ol>
+                ) : (
+                  <p className="no-results">No ratings yet!</p>
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="section liked">
+                  <h2>👍 Most Liked Drawings</h2>
+                  {topLiked.length > 0 ? (
+                    <ol>
+                      {topLiked.map(({ item: player, place }) =>
+                        renderEntry(player, place, `👍 ${player.thumbsUp}`, isTie(topLiked, place))
+                      )}
+                    </ol>
+                  ) : (
+                    <p className="no-results">No votes yet!</p>
+                  )}
                 </div>
-                {player.assignedSentence && (
-                  <p className="prompt">"{player.assignedSentence}"</p>
+
+                <div className="section disliked">
+                  <h2>👎 Most Controversial</h2>
+                  {topDisliked.length > 0 ? (
+                    <ol>
+                      {topDisliked.map(({ item: player, place }) =>
+                        renderEntry(player, place, `👎 ${player.thumbsDown}`, isTie(topDisliked, place))
+                      )}
+                    </ol>
+                  ) : (
+                    <p className="no-results">Everyone was loved! 💕</p>
+                  )}
+                </div>
+              </>
+            )}
+
+            {gameState.settings.categoryVoting && (
+              <div className="section awards">
+                <h2>🏅 Awards</h2>
+                <ul className="award-list">
+                  {categoryResults.map((result) => {
+                    const winners = getWinners(result.winnerIds);
+                    return (
+                      <li key={result.id}>
+                        <span className="award-label">{result.label}</span>
+                        {winners.length > 0 ? (
+                          <span className="player-name">
+                            {winners.map((p) => getArtistName(gameState, p)).join(" & ")}
+                            {winners.some(isOwn) && <span className="you-badge">YOU</span>}
+                            <span className="votes">
+                              {" "}({result.votes} vote{result.votes !== 1 ? "s" : ""})
+                            </span>
+                            {winners.length > 1 && <span className="tie-badge">🤝 Tie</span>}
+                          </span>
+                        ) : (
+                          <span className="no-results">No votes</span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            {gameState.settings.rankedVoting && (
+              <div className="section favourite">
+                <h2>🗳️ Class Favourite</h2>
+                {getWinners(rankedResult.winnerIds).length > 0 ? (
+                  <>
+                    <div className="favourite-drawings">
+                      {getWinners(rankedResult.winnerIds).map((player) => (
+                        <div key={player.id} className="mini-drawing">
+                          <DrawingView drawing={player.drawing!} label={`Drawing by ${getArtistName(gameState, player)}`} />
+                          <span className="player-name">
+                            {getArtistName(gameState, player)}
+                            {isOwn(player) && <span className="you-badge">YOU</span>}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="mode-hint">
+                      {rankedResult.winnerIds.length > 1 ? "🤝 A tie, " : "Won "}
+                      after {rankedResult.rounds} round{rankedResult.rounds !== 1 ? "s" : ""} of counting
+                      the ranked ballots
+                    </p>
+                  </>
+                ) : (
+                  <p className="no-results">Nobody ranked the drawings!</p>
                 )}
               </div>
-            ))}
-        </div>
-      </div>
+            )}
+
+            {gameState.settings.guessSentences && (
+              <div className="section guessed">
+                <h2>🤔 Best Guessing Points</h2>
+                {topGuessers.length > 0 ? (
+                  <ol>
+                    {topGuessers.map(({ item: { player, points }, place }) => (
+                      <li key={player.id} className={`rank-${place}`}>
+                        <div className="player-entry">
+                          <span className="medal">{getMedal(place - 1)}</span>
+                          <div className="player-info">
+                            <span className="player-name">
+                              {player.name}
+                              {player.id === localPlayer?.id && (
+                                <span className="you-badge">YOU</span>
+                              )}
+                            </span>
+                            <span className="votes">🤔 {points} pts</span>
+                            {isTie(topGuessers, place) && <span className="tie-badge">🤝 Tie</span>}
+                          </div>
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                ) : (
+                  <p className="no-results">Nobody guessed a thing! 🙈</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="all-drawings">
+            <h2>🖼️ All Drawings</h2>
+            <div className="drawings-grid">
+              {participants.map((player) => (
+                  <div key={player.id} className={`drawing-card ${player.drawingHidden ? "hidden-drawing" : ""}`}>
+                    <DrawingView drawing={player.drawing!} label={`Drawing by ${getArtistName(gameState, player)}`} />
+                    <div className="card-info">
+                      <span className="artist">{getArtistName(gameState, player)}</span>
+                      <span className="reactions">
+                        {stars
+                          ? `⭐ ${getRating(gameState, player.drawingId).average.toFixed(1)} (${getRating(gameState, player.drawingId).count})`
+                          : `👍 ${player.thumbsUp} | 👎 ${player.thumbsDown}`}
+                      </span>
+                    </div>
+                    {player.assignedSentence && (
+                      <p className="prompt">&quot;{player.assignedSentence}&quot;</p>
+                    )}
+                    {isHost && (
+                      <button
+                        className="btn-link"
+                        onClick={() => onSetDrawingHidden(player.id, !player.drawingHidden)}
+                      >
+                        {player.drawingHidden ? "👁️ Show" : "🙈 Hide"}
+                      </button>
+                    )}
+                  </div>
+                ))}
+            </div>
+          </div>
+        </>
+      )}
 
       {isHost && (
         <div className="host-controls">
-          <button className="btn-primary" onClick={onPlayAgain}>
-            🔄 Play Again
-          </button>
+          {finalRound ? (
+            <button className="btn-primary" onClick={onEndGame}>
+              🏁 Final Results
+            </button>
+          ) : (
+            <>
+              <button className="btn-primary" onClick={onNextRound}>
+                ▶️ Start Round {gameState.round + 1}
+              </button>
+              <button className="btn-secondary" onClick={onEndGame}>
+                🏁 End Game Now
+              </button>
+            </>
+          )}
         </div>
       )}
     </div>
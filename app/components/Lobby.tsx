@@ -1,17 +1,55 @@
 "use client";
 
 import { useState } from "react";
-import { GameState, Player } from "../lib/types";
+import { getJoinUrl, useRoomFromUrl, useTransportFromUrl } from "../lib/joinLink";
+import { findScoringPreset, SCORING_PRESETS } from "../lib/scoring";
+import { getTeamOf } from "../lib/teams";
+import { RoomAddress, TransportKind } from "../lib/transport";
+import {
+  DEFAULT_ROOM_CODE_LENGTH,
+  GameMode,
+  GameSettings,
+  GameState,
+  ModerationSettings,
+  Player,
+  QuestionBank,
+  QuizMode,
+  ROOM_CODE_LENGTHS,
+  RoomAccess,
+  ScoringModel,
+  Team,
+} from "../lib/types";
+import { GameSettingsPanel } from "./GameSettingsPanel";
+import { JoinQrCode } from "./JoinQrCode";
+import { ModerationPanel } from "./ModerationPanel";
+import { QuestionBankEditor } from "./QuestionBankEditor";
+import { RoomAccessPanel } from "./RoomAccessPanel";
+import { TeamBadge, TeamsPanel } from "./TeamsPanel";
 
 interface LobbyProps {
   gameState: GameState | null;
   localPlayer: Player | null;
   isHost: boolean;
   isConnected: boolean;
+  roomAddress: RoomAddress | null; // what the room really runs on, for join links
   error: string | null;
-  onCreateRoom: (hostName: string) => Promise<string>;
-  onJoinRoom: (roomCode: string, playerName: string) => Promise<void>;
+  onCreateRoom: (hostName: string, transport: TransportKind, codeLength: number) => Promise<string>;
+  onJoinRoom: (
+    roomCode: string,
+    playerName: string,
+    transport: TransportKind,
+    password: string
+  ) => Promise<void>;
   onStartGame: () => void;
+  onSelectQuestionBank: (bank: QuestionBank) => void;
+  onSetQuizMode: (mode: QuizMode) => void;
+  onSetGameMode: (mode: GameMode) => void;
+  onSetTeams: (teams: Team[]) => void;
+  onSetScoringModel: (model: ScoringModel) => void;
+  onSetSettings: (settings: GameSettings) => void;
+  onSetModeration: (settings: ModerationSettings) => void;
+  onKickPlayer: (playerId: string, ban?: boolean) => void;
+  onSetRoomAccess: (access: RoomAccess) => void;
 }
 
 export function Lobby({
@@ -19,20 +57,40 @@ export function Lobby({
   localPlayer,
   isHost,
   isConnected,
+  roomAddress,
   error,
   onCreateRoom,
   onJoinRoom,
   onStartGame,
+  onSelectQuestionBank,
+  onSetQuizMode,
+  onSetGameMode,
+  onSetTeams,
+  onSetScoringModel,
+  onSetSettings,
+  onSetModeration,
+  onKickPlayer,
+  onSetRoomAccess,
 }: LobbyProps) {
-  const [mode, setMode] = useState<"select" | "host" | "join">("select");
+  // A join link skips straight to the join form with its code filled in
+  const linkedRoom = useRoomFromUrl();
+  const linkedTransport = useTransportFromUrl();
+  const [chosenMode, setMode] = useState<"select" | "host" | "join" | null>(null);
+  const mode = chosenMode ?? (linkedRoom ? "join" : "select");
   const [playerName, setPlayerName] = useState("");
-  const [roomCode, setRoomCode] = useState("");
+  const [typedRoomCode, setRoomCode] = useState<string | null>(null);
+  const roomCode = typedRoomCode ?? linkedRoom ?? "";
+  const [password, setPassword] = useState("");
+  const [codeLength, setCodeLength] = useState(DEFAULT_ROOM_CODE_LENGTH);
   const [isLoading, setIsLoading] = useState(false);
+  const [chosenTransport, setTransport] = useState<TransportKind | null>(null);
+  const transport = chosenTransport ?? linkedTransport ?? "peerjs";
+  const [linkCopied, setLinkCopied] = useState(false);
 
   const handleCreateRoom = async () => {
     setIsLoading(true);
     try {
-      await onCreateRoom("Host");
+      await onCreateRoom("Host", transport, codeLength);
     } catch {
       // Error is handled by parent
     }
@@ -43,16 +101,42 @@ export function Lobby({
     if (!playerName.trim() || !roomCode.trim()) return;
     setIsLoading(true);
     try {
-      await onJoinRoom(roomCode.trim().toUpperCase(), playerName.trim());
+      await onJoinRoom(roomCode.trim().toUpperCase(), playerName.trim(), transport, password);
     } catch {
       // Error is handled by parent
     }
     setIsLoading(false);
   };
 
+  const copyJoinLink = async () => {
+    if (!gameState) return;
+    try {
+      await navigator.clipboard.writeText(getJoinUrl(gameState.roomCode, roomAddress));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      // Clipboard blocked - the code is still on screen
+    }
+  };
+
+  const transportPicker = (
+    <div className="transport-picker">
+      <label htmlFor="transport">Connection</label>
+      <select
+        id="transport"
+        value={transport}
+        onChange={(e) => setTransport(e.target.value as TransportKind)}
+      >
+        <option value="peerjs">🌐 Online (PeerJS)</option>
+        <option value="websocket">🏫 Local relay server</option>
+      </select>
+    </div>
+  );
+
   if (isConnected && gameState) {
     // Only show participants (non-host players)
     const participants = gameState.players.filter((p) => !p.isHost);
+    const { minPlayers } = gameState.settings;
 
     return (
       <div className="lobby-connected">
@@ -60,10 +144,23 @@ export function Lobby({
           <h2>Room Code</h2>
           <div className="room-code">{gameState.roomCode}</div>
           <p className="room-hint">Share this code with players</p>
+          {isHost && (
+            <>
+              <JoinQrCode roomCode={gameState.roomCode} address={roomAddress} />
+              <p className="room-hint">...or scan to join</p>
+              <button className="btn-secondary copy-link" onClick={copyJoinLink}>
+                {linkCopied ? "✅ Link copied!" : "🔗 Copy join link"}
+              </button>
+            </>
+          )}
         </div>
 
         <div className="players-list">
-          <h3>Players ({participants.length})</h3>
+          <h3>
+            Players ({participants.length}
+            {isHost && gameState.access && `/${gameState.access.maxPlayers}`})
+            {isHost && gameState.access?.locked && " 🔒"}
+          </h3>
           {participants.length === 0 ? (
             <p className="no-players">No players have joined yet...</p>
           ) : (
@@ -71,23 +168,137 @@ export function Lobby({
               {participants.map((player) => (
                 <li key={player.id}>
                   {player.name}
+                  <TeamBadge team={getTeamOf(gameState, player.id)} />
                   {player.id === localPlayer?.id && (
                     <span className="you-badge">YOU</span>
                   )}
+                  {player.disconnectedAt && (
+                    <span className="disconnected-badge">RECONNECTING</span>
+                  )}
+                  {isHost && (
+                    <>
+                      <button
+                        className="btn-remove"
+                        onClick={() => onKickPlayer(player.id)}
+                        title={`Remove ${player.name}`}
+                      >
+                        ✕
+                      </button>
+                      <button
+                        className="btn-remove"
+                        onClick={() => onKickPlayer(player.id, true)}
+                        title={`Ban ${player.name}`}
+                      >
+                        🚫
+                      </button>
+                    </>
+                  )}
                 </li>
               ))}
             </ul>
           )}
         </div>
 
+        {isHost && (
+          <div className="quiz-mode-picker">
+            <h3>Game Mode</h3>
+            <div className="mode-toggle">
+              <button
+                className={gameState.gameMode === "classic" ? "active" : ""}
+                onClick={() => onSetGameMode("classic")}
+              >
+                🖼️ Classic
+              </button>
+              <button
+                className={gameState.gameMode === "telephone" ? "active" : ""}
+                onClick={() => onSetGameMode("telephone")}
+              >
+                📞 Telephone
+              </button>
+              <button
+                className={gameState.gameMode === "teams" ? "active" : ""}
+                onClick={() => onSetGameMode("teams")}
+              >
+                👥 Teams
+              </button>
+            </div>
+            <p className="mode-hint">
+              {gameState.gameMode === "telephone"
+                ? "Sentences are passed along: drawn, described from the drawing, drawn again... then every chain is revealed."
+                : gameState.gameMode === "teams"
+                ? "Each team draws one sentence together on a shared canvas, with every tool anyone on the team unlocked."
+                : "Everyone draws someone else's sentence, then the class votes on the drawings."}
+            </p>
+          </div>
+        )}
+
+        {isHost && gameState.gameMode === "teams" && (
+          <TeamsPanel gameState={gameState} onChange={onSetTeams} />
+        )}
+
+        {isHost && (
+          <div className="quiz-mode-picker">
+            <h3>Quiz Pace</h3>
+            <div className="mode-toggle">
+              <button
+                className={gameState.quizMode === "self_paced" ? "active" : ""}
+                onClick={() => onSetQuizMode("self_paced")}
+              >
+                🏃 Self-paced
+              </button>
+              <button
+                className={gameState.quizMode === "classroom" ? "active" : ""}
+                onClick={() => onSetQuizMode("classroom")}
+              >
+                🏫 Classroom pace
+              </button>
+            </div>
+            <p className="mode-hint">
+              {gameState.quizMode === "classroom"
+                ? "Everyone answers the same question together, then sees how the class did."
+                : "Players race through the questions on their own before the timer runs out."}
+            </p>
+          </div>
+        )}
+
+        {isHost && (
+          <div className="quiz-mode-picker">
+            <h3>Quiz Scoring</h3>
+            <div className="mode-toggle">
+              {SCORING_PRESETS.map((preset) => (
+                <button
+                  key={preset.id}
+                  className={findScoringPreset(gameState.scoringModel)?.id === preset.id ? "active" : ""}
+                  onClick={() => onSetScoringModel(preset.model)}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <p className="mode-hint">{findScoringPreset(gameState.scoringModel)?.hint}</p>
+          </div>
+        )}
+
+        {isHost && <GameSettingsPanel settings={gameState.settings} onChange={onSetSettings} />}
+
+        {isHost && gameState.access && (
+          <RoomAccessPanel access={gameState.access} onChange={onSetRoomAccess} />
+        )}
+
+        {isHost && gameState.moderation && (
+          <ModerationPanel settings={gameState.moderation} onChange={onSetModeration} />
+        )}
+
+        {isHost && <QuestionBankEditor onSelectBank={onSelectQuestionBank} />}
+
         {isHost ? (
           <button
             className="btn-primary"
             onClick={onStartGame}
-            disabled={participants.length < 2}
+            disabled={participants.length < minPlayers}
           >
-            {participants.length < 2
-              ? "Waiting for at least 2 players..."
+            {participants.length < minPlayers
+              ? `Waiting for at least ${minPlayers} player${minPlayers !== 1 ? "s" : ""}...`
               : "Start Game"}
           </button>
         ) : (
@@ -124,6 +335,21 @@ export function Lobby({
         <p className="host-description">
           Create a room and share the code with your players
         </p>
+        {transportPicker}
+        <div className="transport-picker">
+          <label htmlFor="code-length">Room code</label>
+          <select
+            id="code-length"
+            value={codeLength}
+            onChange={(e) => setCodeLength(Number(e.target.value))}
+          >
+            {ROOM_CODE_LENGTHS.map((length) => (
+              <option key={length} value={length}>
+                {length} characters
+              </option>
+            ))}
+          </select>
+        </div>
         <button
           className="btn-primary"
           onClick={handleCreateRoom}
@@ -147,7 +373,7 @@ export function Lobby({
         placeholder="Room code"
         value={roomCode}
         onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
-        maxLength={4}
+        maxLength={Math.max(...ROOM_CODE_LENGTHS)}
         className="room-input"
       />
       <input
@@ -157,10 +383,18 @@ export function Lobby({
         onChange={(e) => setPlayerName(e.target.value)}
         maxLength={20}
       />
+      <input
+        type="password"
+        placeholder="Room password (if there is one)"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        maxLength={40}
+      />
+      {transportPicker}
       <button
         className="btn-primary"
         onClick={handleJoinRoom}
-        disabled={!playerName.trim() || roomCode.length !== 4 || isLoading}
+        disabled={!playerName.trim() || !ROOM_CODE_LENGTHS.includes(roomCode.length) || isLoading}
       >
         {isLoading ? "Joining..." : "Join Room"}
       </button>
@@ -0,0 +1,48 @@
+"use client";
+
+import { useState } from "react";
+import { parseBlockedWords } from "../lib/moderation";
+import { ModerationSettings } from "../lib/types";
+
+interface ModerationPanelProps {
+  settings: ModerationSettings;
+  onChange: (settings: ModerationSettings) => void;
+}
+
+export function ModerationPanel({ settings, onChange }: ModerationPanelProps) {
+  const [wordsText, setWordsText] = useState(() => settings.blockedWords.join(", "));
+
+  return (
+    <div className="moderation-panel">
+      <h3>🛡️ Moderation</h3>
+
+      <label className="moderation-option">
+        <input
+          type="checkbox"
+          checked={settings.filterWords}
+          onChange={(e) => onChange({ ...settings, filterWords: e.target.checked })}
+        />
+        Block rude words in sentences and player names
+      </label>
+
+      <label className="moderation-option">
+        <input
+          type="checkbox"
+          checked={settings.reviewSentences}
+          onChange={(e) => onChange({ ...settings, reviewSentences: e.target.checked })}
+        />
+        Approve every sentence before it&apos;s used
+      </label>
+
+      {settings.filterWords && (
+        <textarea
+          value={wordsText}
+          onChange={(e) => setWordsText(e.target.value)}
+          onBlur={() => onChange({ ...settings, blockedWords: parseBlockedWords(wordsText) })}
+          placeholder="Extra words to block, separated by commas"
+          rows={2}
+        />
+      )}
+    </div>
+  );
+}
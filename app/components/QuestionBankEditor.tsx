@@ -0,0 +1,277 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  createQuestionBank,
+  exportQuestionBankCsv,
+  exportQuestionBankJson,
+  loadQuestionBanks,
+  loadSelectedBank,
+  parseQuestionBankCsv,
+  parseQuestionBankJson,
+  saveQuestionBanks,
+  validateQuestion,
+} from "../lib/questionBanks";
+import { DEFAULT_QUESTION_BANK, QuestionBank, QuizQuestion } from "../lib/types";
+
+interface QuestionBankEditorProps {
+  onSelectBank: (bank: QuestionBank) => void;
+}
+
+const MAX_OPTIONS = 6;
+
+function downloadFile(filename: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function isPlayable(bank: QuestionBank): boolean {
+  return bank.questions.length > 0 && bank.questions.every((q) => !validateQuestion(q));
+}
+
+export function QuestionBankEditor({ onSelectBank }: QuestionBankEditorProps) {
+  const [banks, setBanks] = useState<QuestionBank[]>(() => loadQuestionBanks());
+  const [selectedId, setSelectedId] = useState(() => loadSelectedBank().id);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedBank = banks.find((b) => b.id === selectedId) ?? DEFAULT_QUESTION_BANK;
+  const isBuiltIn = selectedBank.id === DEFAULT_QUESTION_BANK.id;
+
+  const selectBank = (bank: QuestionBank) => {
+    setSelectedId(bank.id);
+    if (isPlayable(bank)) {
+      onSelectBank(bank);
+    }
+  };
+
+  const storeBanks = (newBanks: QuestionBank[]) => {
+    setBanks(newBanks);
+    saveQuestionBanks(newBanks);
+  };
+
+  const addBank = (bank: QuestionBank) => {
+    storeBanks([...banks, bank]);
+    selectBank(bank);
+  };
+
+  const updateSelectedBank = (update: Partial<QuestionBank>) => {
+    const updated = { ...selectedBank, ...update };
+    storeBanks(banks.map((b) => (b.id === updated.id ? updated : b)));
+    if (isPlayable(updated)) {
+      onSelectBank(updated);
+    }
+  };
+
+  const updateQuestion = (index: number, update: Partial<QuizQuestion>) => {
+    updateSelectedBank({
+      questions: selectedBank.questions.map((q, i) => (i === index ? { ...q, ...update } : q)),
+    });
+  };
+
+  const addQuestion = () => {
+    updateSelectedBank({
+      questions: [
+        ...selectedBank.questions,
+        { id: selectedBank.questions.length + 1, question: "", options: ["", ""], correctIndex: 0 },
+      ],
+    });
+  };
+
+  const removeQuestion = (index: number) => {
+    updateSelectedBank({
+      questions: selectedBank.questions
+        .filter((_, i) => i !== index)
+        .map((q, i) => ({ ...q, id: i + 1 })),
+    });
+  };
+
+  const deleteSelectedBank = () => {
+    if (isBuiltIn) return;
+    storeBanks(banks.filter((b) => b.id !== selectedBank.id));
+    selectBank(DEFAULT_QUESTION_BANK);
+  };
+
+  const handleImport = async (file: File) => {
+    setImportError(null);
+    const name = file.name.replace(/\.[^.]+$/, "");
+    try {
+      const text = await file.text();
+      const bank = file.name.toLowerCase().endsWith(".csv")
+        ? parseQuestionBankCsv(text, name)
+        : parseQuestionBankJson(text, name);
+      addBank(bank);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Could not import that file");
+    }
+  };
+
+  return (
+    <div className="question-banks">
+      <h3>🧠 Quiz Questions</h3>
+
+      <div className="bank-picker">
+        <select
+          value={selectedBank.id}
+          onChange={(e) => {
+            const bank = banks.find((b) => b.id === e.target.value);
+            if (bank) selectBank(bank);
+          }}
+        >
+          {banks.map((bank) => (
+            <option key={bank.id} value={bank.id}>
+              {bank.name} ({bank.questions.length})
+            </option>
+          ))}
+        </select>
+        <button className="btn-secondary" onClick={() => addBank(createQuestionBank("New question set"))}>
+          ➕ New
+        </button>
+        <button
+          className="btn-secondary"
+          onClick={() => addBank(createQuestionBank(`${selectedBank.name} (copy)`, selectedBank.questions))}
+        >
+          📄 Duplicate
+        </button>
+        {!isBuiltIn && (
+          <button className="btn-secondary" onClick={deleteSelectedBank}>
+            🗑️ Delete
+          </button>
+        )}
+      </div>
+
+      <div className="bank-io">
+        <button className="btn-secondary" onClick={() => fileInputRef.current?.click()}>
+          📥 Import JSON / CSV
+        </button>
+        <button
+          className="btn-secondary"
+          onClick={() => downloadFile(`${selectedBank.name}.json`, exportQuestionBankJson(selectedBank), "application/json")}
+        >
+          📤 Export JSON
+        </button>
+        <button
+          className="btn-secondary"
+          onClick={() => downloadFile(`${selectedBank.name}.csv`, exportQuestionBankCsv(selectedBank), "text/csv")}
+        >
+          📤 Export CSV
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          hidden
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {importError && <p className="error">{importError}</p>}
+
+      {isBuiltIn ? (
+        <p className="bank-hint">
+          Built-in questions. Duplicate this set to make your own changes.
+        </p>
+      ) : (
+        <div className="bank-editor">
+          <input
+            type="text"
+            value={selectedBank.name}
+            onChange={(e) => updateSelectedBank({ name: e.target.value })}
+            placeholder="Question set name"
+            maxLength={40}
+          />
+
+          {selectedBank.questions.map((question, qIndex) => {
+            const problem = validateQuestion(question);
+            return (
+              <div key={qIndex} className="question-editor">
+                <div className="question-editor-header">
+                  <span className="question-number">Q{qIndex + 1}</span>
+                  <input
+                    type="text"
+                    value={question.question}
+                    onChange={(e) => updateQuestion(qIndex, { question: e.target.value })}
+                    placeholder="Question"
+                    maxLength={150}
+                  />
+                  <button className="btn-remove" onClick={() => removeQuestion(qIndex)} title="Remove question">
+                    ✕
+                  </button>
+                </div>
+
+                {question.options.map((option, oIndex) => (
+                  <div key={oIndex} className="option-editor">
+                    <input
+                      type="radio"
+                      name={`correct-${qIndex}`}
+                      checked={question.correctIndex === oIndex}
+                      onChange={() => updateQuestion(qIndex, { correctIndex: oIndex })}
+                      title="Correct answer"
+                    />
+                    <input
+                      type="text"
+                      value={option}
+                      onChange={(e) =>
+                        updateQuestion(qIndex, {
+                          options: question.options.map((o, i) => (i === oIndex ? e.target.value : o)),
+                        })
+                      }
+                      placeholder={`Option ${oIndex + 1}`}
+                      maxLength={60}
+                    />
+                    {question.options.length > 2 && (
+                      <button
+                        className="btn-remove"
+                        onClick={() =>
+                          updateQuestion(qIndex, {
+                            options: question.options.filter((_, i) => i !== oIndex),
+                            correctIndex:
+                              question.correctIndex > oIndex
+                                ? question.correctIndex - 1
+                                : question.correctIndex === oIndex
+                                ? 0
+                                : question.correctIndex,
+                          })
+                        }
+                        title="Remove option"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                ))}
+
+                {question.options.length < MAX_OPTIONS && (
+                  <button
+                    className="btn-link"
+                    onClick={() => updateQuestion(qIndex, { options: [...question.options, ""] })}
+                  >
+                    + Add option
+                  </button>
+                )}
+                {problem && <p className="question-problem">⚠️ {problem}</p>}
+              </div>
+            );
+          })}
+
+          <button className="btn-secondary" onClick={addQuestion}>
+            ➕ Add Question
+          </button>
+          {!isPlayable(selectedBank) && (
+            <p className="question-problem">
+              Fix the questions above before this set can be used.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,72 +1,59 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
-import { GameState, Player, QUIZ_QUESTIONS, getUnlockedTools, getUnlockedColors } from "../lib/types";
+import { useState, useCallback } from "react";
+import { getStreak } from "../lib/scoring";
+import { GameState, Player, QuizAnswerResult, getUnlockedTools, getUnlockedColors } from "../lib/types";
 
 interface QuizRoundProps {
   gameState: GameState;
+  timeRemaining: number; // seconds left on the current countdown
   localPlayer: Player | null;
+  quizResults: Record<number, QuizAnswerResult>;
   isHost: boolean;
   onSubmitAnswer: (questionIndex: number, answerIndex: number) => void;
   onUpdatePlayerSentence: (playerId: string, sentence: string) => void;
   onStartDrawing: () => void;
-  onUpdateQuizTime: (time: number) => void;
 }
 
-const QUIZ_DURATION = 90; // 1 minute 30 seconds
-
 export function QuizRound({
   gameState,
+  timeRemaining,
   localPlayer,
+  quizResults,
   isHost,
   onSubmitAnswer,
   onUpdatePlayerSentence,
   onStartDrawing,
-  onUpdateQuizTime,
 }: QuizRoundProps) {
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [selectedAnswers, setSelectedAnswers] = useState<(number | null)[]>(
-    new Array(QUIZ_QUESTIONS.length).fill(null)
-  );
-  const [showResult, setShowResult] = useState(false);
+  const questions = gameState.quizQuestions;
 
-  const currentQuestion = QUIZ_QUESTIONS[currentQuestionIndex];
-  const participants = gameState.players.filter((p) => !p.isHost);
+  // Answers picked here, until the host's result for them comes back
+  const [picks, setPicks] = useState<Record<number, number>>({});
+  // Question whose result is on screen before moving on
+  const [showingResultFor, setShowingResultFor] = useState<number | null>(null);
 
-  // Timer countdown (host controls)
-  useEffect(() => {
-    if (!isHost) return;
-    if (gameState.quizTimeRemaining <= 0) {
-      // Time's up - move to drawing phase
-      onStartDrawing();
-      return;
-    }
+  // The host's results also cover answers given before a reconnect
+  const selectedAnswers = questions.map(
+    (_, index) => quizResults[index]?.answerIndex ?? picks[index] ?? null
+  );
+  const firstUnanswered = selectedAnswers.findIndex((a) => a === null);
+  const showResult = showingResultFor !== null;
+  const currentQuestionIndex = showingResultFor ?? Math.max(firstUnanswered, 0);
+  const currentQuestion = questions[currentQuestionIndex];
+  const currentResult = quizResults[currentQuestionIndex];
+  const participants = gameState.players.filter((p) => !p.isHost);
 
-    const interval = setInterval(() => {
-      onUpdateQuizTime(gameState.quizTimeRemaining - 1);
-    }, 1000);
+  const handleAnswer = useCallback((answerIndex: number) => {
+    if (showingResultFor !== null || selectedAnswers[currentQuestionIndex] !== null) return;
 
-    return () => clearInterval(interval);
-  }, [isHost, gameState.quizTimeRemaining, onUpdateQuizTime, onStartDrawing]);
+    setPicks((prev) => ({ ...prev, [currentQuestionIndex]: answerIndex }));
+    setShowingResultFor(currentQuestionIndex);
 
-  const handleAnswer = useCallback((answerIndex: number) => {
-    if (selectedAnswers[currentQuestionIndex] !== null) return;
-    
-    const newAnswers = [...selectedAnswers];
-    newAnswers[currentQuestionIndex] = answerIndex;
-    setSelectedAnswers(newAnswers);
-    setShowResult(true);
-    
     onSubmitAnswer(currentQuestionIndex, answerIndex);
 
     // Auto-advance to next question after showing result
-    setTimeout(() => {
-      setShowResult(false);
-      if (currentQuestionIndex < QUIZ_QUESTIONS.length - 1) {
-        setCurrentQuestionIndex(currentQuestionIndex + 1);
-      }
-    }, 1500);
-  }, [currentQuestionIndex, selectedAnswers, onSubmitAnswer]);
+    setTimeout(() => setShowingResultFor(null), 1500);
+  }, [currentQuestionIndex, selectedAnswers, showingResultFor, onSubmitAnswer]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -74,9 +61,10 @@ export function QuizRound({
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
-  const unlockedTools = localPlayer ? getUnlockedTools(localPlayer.quizScore) : [];
-  const unlockedColors = localPlayer ? getUnlockedColors(localPlayer.quizScore) : [];
-  const allQuestionsAnswered = selectedAnswers.every((a) => a !== null);
+  const unlockedTools = localPlayer ? getUnlockedTools(localPlayer.quizScore, questions.length, gameState.scoringModel, gameState.settings.unlockScale) : [];
+  const unlockedColors = localPlayer ? getUnlockedColors(localPlayer.quizScore, questions.length, gameState.scoringModel, gameState.settings.unlockScale) : [];
+  const allQuestionsAnswered = firstUnanswered === -1;
+  const streak = getStreak(quizResults, currentQuestionIndex);
 
   // Host sees moderation view
   if (isHost) {
@@ -84,8 +72,8 @@ export function QuizRound({
       <div className="quiz-round">
         <div className="quiz-header">
           <h2>🧠 Quiz in Progress</h2>
-          <div className={`timer ${gameState.quizTimeRemaining <= 30 ? "warning" : ""}`}>
-            ⏱️ {formatTime(gameState.quizTimeRemaining)}
+          <div className={`timer ${timeRemaining <= 30 ? "warning" : ""}`}>
+            ⏱️ {formatTime(timeRemaining)}
           </div>
         </div>
 
@@ -104,15 +92,15 @@ export function QuizRound({
                       <div
                         className="progress-fill"
                         style={{
-                          width: `${(answersCount / QUIZ_QUESTIONS.length) * 100}%`,
+                          width: `${(answersCount / questions.length) * 100}%`,
                         }}
                       />
                     </div>
                     <span className="progress-text">
-                      {answersCount}/{QUIZ_QUESTIONS.length}
+                      {answersCount}/{questions.length}
                     </span>
                     <span className="score-text">
-                      Score: {player.quizScore}
+                      {player.quizCorrect} correct · {player.quizScore} pts
                     </span>
                   </div>
                 );
@@ -157,15 +145,18 @@ export function QuizRound({
       <div className="quiz-round">
         <div className="quiz-header">
           <h2>🎉 Quiz Complete!</h2>
-          <div className={`timer ${gameState.quizTimeRemaining <= 30 ? "warning" : ""}`}>
-            ⏱️ {formatTime(gameState.quizTimeRemaining)}
+          <div className={`timer ${timeRemaining <= 30 ? "warning" : ""}`}>
+            ⏱️ {formatTime(timeRemaining)}
           </div>
         </div>
 
         <div className="quiz-complete">
           <div className="score-card big">
             <h4>Your Score</h4>
-            <div className="score">{localPlayer?.quizScore || 0}/{QUIZ_QUESTIONS.length}</div>
+            <div className="score">{localPlayer?.quizScore || 0} pts</div>
+            <p className="score-detail">
+              {localPlayer?.quizCorrect || 0}/{questions.length} correct
+            </p>
           </div>
 
           <div className="tools-unlocked">
@@ -208,22 +199,22 @@ export function QuizRound({
     <div className="quiz-round">
       <div className="quiz-header">
         <h2>🧠 Brain Warm-Up!</h2>
-        <div className={`timer ${gameState.quizTimeRemaining <= 30 ? "warning" : ""}`}>
-          ⏱️ {formatTime(gameState.quizTimeRemaining)}
+        <div className={`timer ${timeRemaining <= 30 ? "warning" : ""}`}>
+          ⏱️ {formatTime(timeRemaining)}
         </div>
       </div>
 
       <div className="quiz-content">
         <div className="question-card">
           <div className="question-progress">
-            Question {currentQuestionIndex + 1} of {QUIZ_QUESTIONS.length}
+            Question {currentQuestionIndex + 1} of {questions.length}
           </div>
           <h3>{currentQuestion.question}</h3>
           <div className="options">
             {currentQuestion.options.map((option, index) => {
               let className = "option";
               const isSelected = selectedAnswers[currentQuestionIndex] === index;
-              const isCorrect = index === currentQuestion.correctIndex;
+              const isCorrect = index === currentResult?.correctIndex;
               
               if (showResult) {
                 if (isCorrect) {
@@ -250,11 +241,15 @@ export function QuizRound({
 
           {showResult && (
             <div className="result">
-              {selectedAnswers[currentQuestionIndex] === currentQuestion.correctIndex ? (
-                <p className="correct-text">🎉 Correct!</p>
+              {currentResult?.correctIndex === undefined ? (
+                <p className="waiting-text">Checking your answer...</p>
+              ) : currentResult.answerIndex === currentResult.correctIndex ? (
+                <p className="correct-text">
+                  🎉 Correct! +{currentResult.points ?? 0}{streak > 1 && ` 🔥 ${streak} in a row`}
+                </p>
               ) : (
                 <p className="wrong-text">
-                  ❌ Oops! It was: {currentQuestion.options[currentQuestion.correctIndex]}
+                  ❌ Oops! It was: {currentQuestion.options[currentResult.correctIndex]}
                 </p>
               )}
             </div>
@@ -268,12 +263,12 @@ export function QuizRound({
           </div>
 
           <div className="question-dots">
-            {QUIZ_QUESTIONS.map((_, index) => (
+            {questions.map((_, index) => (
               <span
                 key={index}
                 className={`dot ${
-                  selectedAnswers[index] !== null
-                    ? selectedAnswers[index] === QUIZ_QUESTIONS[index].correctIndex
+                  quizResults[index]?.correctIndex !== undefined
+                    ? quizResults[index].answerIndex === quizResults[index].correctIndex
                       ? "correct"
                       : "wrong"
                     : index === currentQuestionIndex
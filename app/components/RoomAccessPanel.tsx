@@ -0,0 +1,66 @@
+"use client";
+
+import { unbanPlayer } from "../lib/roomAccess";
+import { MAX_PLAYERS, RoomAccess } from "../lib/types";
+
+interface RoomAccessPanelProps {
+  access: RoomAccess;
+  onChange: (access: RoomAccess) => void;
+}
+
+export function RoomAccessPanel({ access, onChange }: RoomAccessPanelProps) {
+  return (
+    <div className="moderation-panel">
+      <h3>🚪 Room Access</h3>
+
+      <label className="moderation-option">
+        Password
+        <input
+          type="text"
+          value={access.password}
+          onChange={(e) => onChange({ ...access, password: e.target.value })}
+          placeholder="None - anyone with the code can join"
+          maxLength={40}
+        />
+      </label>
+
+      <label className="moderation-option">
+        <input
+          type="checkbox"
+          checked={access.locked}
+          onChange={(e) => onChange({ ...access, locked: e.target.checked })}
+        />
+        Lock the room - nobody new can join (it locks itself when the game starts)
+      </label>
+
+      <label className="moderation-option">
+        Max players
+        <input
+          type="number"
+          min={2}
+          max={MAX_PLAYERS}
+          value={access.maxPlayers}
+          onChange={(e) =>
+            onChange({
+              ...access,
+              maxPlayers: Math.min(MAX_PLAYERS, Math.max(2, Number(e.target.value) || 2)),
+            })
+          }
+        />
+      </label>
+
+      {access.banned.length > 0 && (
+        <ul className="banned-list">
+          {access.banned.map((banned, index) => (
+            <li key={index}>
+              🚫 {banned.name}
+              <button className="btn-link" onClick={() => onChange(unbanPlayer(access, index))}>
+                Unban
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { getGuessTargets } from "../lib/promptGuessing";
+import { getGalleryDrawings, getGalleryPlayers } from "../lib/replay";
+import { getArtistName, isSameArtist } from "../lib/teams";
+import { GameState, Player } from "../lib/types";
+import { DrawingView } from "./DrawingView";
+
+interface SentenceGuessRoundProps {
+  gameState: GameState;
+  timeRemaining: number; // seconds left on the current countdown
+  localPlayer: Player | null;
+  isHost: boolean;
+  onSubmitGuess: (drawingId: string, guess: string) => void;
+  onStartSlideshow: () => void;
+}
+
+// Everyone guesses the sentence behind each of the others' drawings
+export function SentenceGuessRound({
+  gameState,
+  timeRemaining,
+  localPlayer,
+  isHost,
+  onSubmitGuess,
+  onStartSlideshow,
+}: SentenceGuessRoundProps) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  };
+
+  const header = (
+    <div className="drawing-header">
+      <h2>🤔 What Were They Drawing?</h2>
+      <div className={`timer ${timeRemaining <= 10 ? "warning" : ""}`}>
+        ⏱️ {formatTime(timeRemaining)}
+      </div>
+    </div>
+  );
+
+  // Host sees every guess as it comes in, with how close it is
+  if (isHost) {
+    const participants = gameState.players.filter((p) => !p.isHost);
+    const artists = getGalleryPlayers(gameState);
+    const allGuessed = participants.every((guesser) =>
+      getGuessTargets(gameState, guesser.id).every(
+        (artist) => gameState.promptGuesses[artist.drawingId ?? ""]?.[guesser.id]
+      )
+    );
+
+    return (
+      <div className="drawing-phase">
+        {header}
+
+        <div className="guess-grid">
+          {artists.map((artist) => {
+            const guesses = Object.entries(gameState.promptGuesses[artist.drawingId ?? ""] ?? {});
+            return (
+              <div key={artist.id} className="guess-card">
+                <DrawingView drawing={artist.drawing!} label={`Drawing by ${getArtistName(gameState, artist)}`} className="live-thumb" />
+                <span className="player-name">🎨 {getArtistName(gameState, artist)}</span>
+                <p className="prompt-preview">&quot;{artist.assignedSentence}&quot;</p>
+                <ul className="guess-list">
+                  {guesses.map(([guesserId, guess]) => (
+                    <li key={guesserId}>
+                      {gameState.players.find((p) => p.id === guesserId)?.name}:{" "}
+                      {guess.rejected ? "🚫" : `"${guess.text}" (${Math.round(guess.similarity * 100)}%)`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="host-controls">
+          <button
+            className="btn-primary"
+            onClick={onStartSlideshow}
+            disabled={!allGuessed && timeRemaining > 0}
+          >
+            {allGuessed
+              ? "Start Slideshow 🖼️"
+              : timeRemaining <= 0
+              ? "Time's Up! Start Slideshow 🖼️"
+              : `Waiting for guesses... (${formatTime(timeRemaining)})`}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // With anonymous voting the others' drawings come without their artists
+  const targets = getGalleryDrawings(gameState).filter(
+    (d) => localPlayer && !(d.artist && isSameArtist(gameState, d.artist.id, localPlayer.id))
+  );
+
+  const handleSubmit = (drawingId: string) => {
+    const guess = drafts[drawingId]?.trim();
+    if (!guess) return;
+    onSubmitGuess(drawingId, guess);
+  };
+
+  return (
+    <div className="drawing-phase">
+      {header}
+      <p className="instruction">
+        Guess the sentence behind each drawing - the closer you get, the more points you and the
+        artist earn!
+      </p>
+
+      <div className="guess-grid">
+        {targets.map((target) => {
+          const guess = localPlayer ? gameState.promptGuesses[target.id]?.[localPlayer.id] : undefined;
+          const artistName = target.artist ? getArtistName(gameState, target.artist) : "";
+          return (
+            <div key={target.id} className="guess-card">
+              <DrawingView
+                drawing={target.drawing}
+                label={artistName ? `Drawing by ${artistName}` : "Drawing by a mystery artist"}
+                className="live-thumb"
+              />
+              <span className="player-name">{artistName ? `🎨 ${artistName}` : "🎭 Mystery Artist"}</span>
+              {guess && !guess.rejected ? (
+                <p className="your-sentence">✅ &quot;{guess.text}&quot;</p>
+              ) : (
+                <>
+                  {guess?.rejected && (
+                    <p className="rejected-text">🚫 That guess wasn&apos;t accepted - try another.</p>
+                  )}
+                  <input
+                    type="text"
+                    placeholder="What's the sentence?"
+                    value={drafts[target.id] ?? ""}
+                    onChange={(e) => setDrafts({ ...drafts, [target.id]: e.target.value })}
+                    onKeyDown={(e) => e.key === "Enter" && handleSubmit(target.id)}
+                    maxLength={100}
+                  />
+                  <button
+                    className="btn-secondary"
+                    onClick={() => handleSubmit(target.id)}
+                    disabled={!drafts[target.id]?.trim()}
+                  >
+                    Guess
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {targets.length === 0 && (
+        <p className="waiting-text">No drawings to guess - waiting for the others...</p>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import { isSentenceApproved } from "../lib/moderation";
 import { GameState, Player } from "../lib/types";
 
 interface SentenceSubmissionProps {
@@ -9,6 +10,8 @@ interface SentenceSubmissionProps {
   isHost: boolean;
   onSubmitSentence: (sentence: string) => void;
   onUpdatePlayerSentence: (playerId: string, sentence: string) => void;
+  onReviewSentence: (playerId: string, approved: boolean) => void;
+  onKickPlayer: (playerId: string) => void;
   onStartQuiz: () => void;
 }
 
@@ -17,9 +20,11 @@ function hasSubmitted(player: Player): boolean {
   return player.sentence !== undefined;
 }
 
-// Helper to check if sentence is valid (non-empty)
-function hasValidSentence(player: Player): boolean {
-  return player.sentence !== undefined && player.sentence.trim().length > 0;
+function getStatusIcon(player: Player): string {
+  if (player.sentenceStatus === "rejected") return "🚫";
+  if (!hasSubmitted(player)) return "⏳";
+  if (player.sentenceStatus === "pending") return "🕵️";
+  return isSentenceApproved(player) ? "✅" : "⚠️";
 }
 
 export function SentenceSubmission({
@@ -28,6 +33,8 @@ export function SentenceSubmission({
   isHost,
   onSubmitSentence,
   onUpdatePlayerSentence,
+  onReviewSentence,
+  onKickPlayer,
   onStartQuiz,
 }: SentenceSubmissionProps) {
   const [sentence, setSentence] = useState("");
@@ -42,7 +49,8 @@ export function SentenceSubmission({
   // Only count non-host players for submissions
   const participants = gameState.players.filter((p) => !p.isHost);
   const allPlayersSubmitted = participants.every((p) => hasSubmitted(p));
-  const allHaveValidSentences = participants.every((p) => hasValidSentence(p));
+  const allHaveValidSentences = participants.every(isSentenceApproved);
+  const awaitingReview = participants.filter((p) => p.sentenceStatus === "pending").length;
 
   // Host sees moderation view
   if (isHost) {
@@ -50,7 +58,7 @@ export function SentenceSubmission({
       <div className="sentence-submission">
         <h2>📝 Waiting for Sentences</h2>
         <p className="instruction">
-          Players are writing sentences for others to draw. You can edit them below.
+          Players are writing sentences for others to draw. You can edit, approve or reject them below.
         </p>
 
         <div className="submission-status">
@@ -61,13 +69,32 @@ export function SentenceSubmission({
           <ul>
             {participants.map((player) => {
               const playerSubmitted = hasSubmitted(player);
-              const hasValid = hasValidSentence(player);
+              const hasValid = isSentenceApproved(player);
               
               return (
                 <li key={player.id}>
-                  <span className={playerSubmitted ? (hasValid ? "done" : "warning") : "pending"}>
-                    {playerSubmitted ? (hasValid ? "✅" : "⚠️") : "⏳"} {player.name}
-                  </span>
+                  <div className="submission-row">
+                    <span className={playerSubmitted ? (hasValid ? "done" : "warning") : "pending"}>
+                      {getStatusIcon(player)} {player.name}
+                    </span>
+                    <button
+                      className="btn-remove"
+                      onClick={() => onKickPlayer(player.id)}
+                      title={`Remove ${player.name}`}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  {player.sentenceStatus === "pending" && (
+                    <div className="review-actions">
+                      <button className="btn-approve" onClick={() => onReviewSentence(player.id, true)}>
+                        ✓ Approve
+                      </button>
+                      <button className="btn-reject" onClick={() => onReviewSentence(player.id, false)}>
+                        ✕ Reject
+                      </button>
+                    </div>
+                  )}
                   {playerSubmitted && (
                     <div className="host-edit">
                       <input
@@ -94,6 +121,8 @@ export function SentenceSubmission({
         >
           {allHaveValidSentences
             ? "Start Quiz Round 🧠"
+            : awaitingReview > 0
+            ? `${awaitingReview} sentence${awaitingReview === 1 ? "" : "s"} to review`
             : allPlayersSubmitted
             ? "Some sentences are empty!"
             : "Waiting for all submissions..."}
@@ -104,6 +133,7 @@ export function SentenceSubmission({
 
   // Player view
   const playerHasSubmitted = localPlayer ? hasSubmitted(localPlayer) : false;
+  const wasRejected = localPlayer?.sentenceStatus === "rejected";
 
   return (
     <div className="sentence-submission">
@@ -112,8 +142,13 @@ export function SentenceSubmission({
         Get creative! Write something silly, weird, or wonderful for someone else to draw 🎨
       </p>
 
-      {!submitted && !playerHasSubmitted ? (
+      {!playerHasSubmitted && (!submitted || wasRejected) ? (
         <div className="submission-form">
+          {wasRejected && (
+            <p className="rejected-text">
+              🚫 That sentence wasn&apos;t accepted - please write a different one.
+            </p>
+          )}
           <textarea
             placeholder="e.g., A cat riding a unicycle on the moon"
             value={sentence}
@@ -135,7 +170,11 @@ export function SentenceSubmission({
           {localPlayer?.sentence && (
             <p className="your-sentence">"{localPlayer.sentence}"</p>
           )}
-          <p className="waiting-text">Waiting for other players...</p>
+          <p className="waiting-text">
+            {localPlayer?.sentenceStatus === "pending"
+              ? "Waiting for the teacher to approve it..."
+              : "Waiting for other players..."}
+          </p>
         </div>
       )}
 
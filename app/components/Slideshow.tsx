@@ -1,58 +1,87 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { GameState, Player } from "../lib/types";
+import { getGalleryDrawings, isArtistRevealed, isArtistSecret, REPLAY_SPEEDS } from "../lib/replay";
+import { GALLERY_ORDERS, getGalleryOrder, SLIDE_ADVANCES } from "../lib/settings";
+import { getArtistName, isSameArtist } from "../lib/teams";
+import { getRating, MAX_STARS } from "../lib/voting";
+import { GalleryOrder, GameState, Player, SlideAdvance } from "../lib/types";
+import { DrawingReplay } from "./DrawingReplay";
+import { DrawingView } from "./DrawingView";
 
 interface SlideshowProps {
   gameState: GameState;
+  timeRemaining: number; // seconds left on the current countdown
+  clockOffset: number;
   localPlayer: Player | null;
   isHost: boolean;
-  onSubmitReaction: (targetPlayerId: string, reactionType: "thumbsUp" | "thumbsDown") => void;
+  onSubmitReaction: (drawingId: string, reactionType: "thumbsUp" | "thumbsDown") => void;
+  onSubmitRating: (drawingId: string, stars: number) => void;
   onNextSlide: () => void;
-  onUpdateSlideTime: (time: number) => void;
+  onPreviousSlide: () => void;
+  onRevealArtist: () => void;
+  onSetReplaySpeed: (speed: number) => void;
+  onPause: (paused: boolean) => void;
+  onSetSlideAdvance: (advance: SlideAdvance) => void;
+  onSetGalleryOrder: (order: GalleryOrder) => void;
+  onSetDrawingHidden: (playerId: string, hidden: boolean) => void;
 }
 
 export function Slideshow({
   gameState,
+  timeRemaining,
+  clockOffset,
   localPlayer,
   isHost,
   onSubmitReaction,
+  onSubmitRating,
   onNextSlide,
-  onUpdateSlideTime,
+  onPreviousSlide,
+  onRevealArtist,
+  onSetReplaySpeed,
+  onPause,
+  onSetSlideAdvance,
+  onSetGalleryOrder,
+  onSetDrawingHidden,
 }: SlideshowProps) {
   const [hasReacted, setHasReacted] = useState(false);
 
-  // Only show drawings from non-host players
-  const playersWithDrawings = gameState.players.filter((p) => !p.isHost && p.drawingDataUrl);
-  const currentPlayer = playersWithDrawings[gameState.currentSlideIndex];
+  // Only show drawings from non-host players that the teacher hasn't hidden
+  const drawings = getGalleryDrawings(gameState);
+  const slide = drawings[gameState.currentSlideIndex];
+  const artist = slide?.artist;
+  // Anonymous voting keeps the artist a secret - on the teacher's screen too -
+  // until the vote on their drawing closes
+  const isSecret = isArtistSecret(gameState, slide?.id);
+  const artistName = artist && !isSecret ? getArtistName(gameState, artist) : "";
+  const label = artistName ? `Drawing by ${artistName}` : "Drawing by a mystery artist";
+  const votingOpen = !isArtistRevealed(gameState, slide?.id);
+  const paused = !!gameState.replay?.paused;
+  const { anonymousVoting, slideAdvance } = gameState.settings;
+  const galleryOrder = getGalleryOrder(gameState.settings);
+  // Teammates don't vote on their own team's drawing
+  const isOwnDrawing = !!artist && !!localPlayer && isSameArtist(gameState, artist.id, localPlayer.id);
+  const guesses = Object.entries(gameState.promptGuesses[slide?.id] ?? {}).filter(
+    ([, guess]) => !guess.rejected
+  );
 
   // Reset reaction state when slide changes
   useEffect(() => {
     setHasReacted(false);
   }, [gameState.currentSlideIndex]);
 
-  // Auto-advance timer (host only)
-  useEffect(() => {
-    if (!isHost) return;
-    if (gameState.slideTimeRemaining <= 0) {
-      onNextSlide();
-      return;
-    }
-
-    const interval = setInterval(() => {
-      onUpdateSlideTime(gameState.slideTimeRemaining - 1);
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [isHost, gameState.slideTimeRemaining, onNextSlide, onUpdateSlideTime]);
-
   const handleReaction = (type: "thumbsUp" | "thumbsDown") => {
-    if (!currentPlayer || hasReacted || isHost) return;
-    onSubmitReaction(currentPlayer.id, type);
+    if (!slide || hasReacted || isHost || !votingOpen) return;
+    onSubmitReaction(slide.id, type);
     setHasReacted(true);
   };
 
-  if (!currentPlayer) {
+  const stars = gameState.settings.voting === "stars";
+  const rating = slide ? getRating(gameState, slide.id) : null;
+  // Stars can be changed until the next drawing comes up
+  const ownRating = slide && localPlayer ? gameState.ratings[slide.id]?.[localPlayer.id] : undefined;
+
+  if (!slide) {
     return (
       <div className="slideshow">
         <h2>🖼️ No drawings to show!</h2>
@@ -61,46 +90,88 @@ export function Slideshow({
     );
   }
 
-  const reactions = gameState.reactions[currentPlayer.id] || {
-    thumbsUp: [],
-    thumbsDown: [],
-  };
-
   return (
     <div className="slideshow">
       <div className="slideshow-header">
         <h2>🖼️ Gallery Time!</h2>
         <div className="slide-progress">
-          {gameState.currentSlideIndex + 1} / {playersWithDrawings.length}
+          {gameState.currentSlideIndex + 1} / {drawings.length}
         </div>
-        <div className="timer">⏱️ {gameState.slideTimeRemaining}s</div>
+        {paused ? (
+          <div className="timer">⏸️ Paused</div>
+        ) : gameState.endsAt !== null ? (
+          <div className="timer">⏱️ {timeRemaining}s</div>
+        ) : (
+          <div className="timer">✋ Teacher&apos;s pace</div>
+        )}
       </div>
 
       <div className="slide-content">
         <div className="artist-info">
-          <span className="artist-name">🎨 {currentPlayer.name}</span>
-          {currentPlayer.assignedSentence && (
-            <span className="prompt">"{currentPlayer.assignedSentence}"</span>
+          {artistName ? (
+            // Keyed by slide so the reveal plays again for every drawing
+            <span
+              key={slide.id}
+              className={`artist-name ${anonymousVoting ? "artist-reveal" : ""}`}
+            >
+              🎨 {artistName}
+            </span>
+          ) : (
+            <span className="artist-name mystery-artist">🎭 Mystery Artist</span>
           )}
+          {slide.prompt && <span className="prompt">&quot;{slide.prompt}&quot;</span>}
         </div>
 
         <div className="drawing-frame">
-          {/* eslint-disable-next-line @next/next/no-img-element */}
-          <img
-            src={currentPlayer.drawingDataUrl}
-            alt={`Drawing by ${currentPlayer.name}`}
-            className="drawing-image"
-          />
+          {gameState.replay ? (
+            <DrawingReplay
+              drawing={slide.drawing}
+              replay={gameState.replay}
+              clockOffset={clockOffset}
+              label={label}
+              className="drawing-image"
+            />
+          ) : (
+            <DrawingView drawing={slide.drawing} label={label} className="drawing-image" />
+          )}
         </div>
 
         <div className="reactions">
-          <div className="reaction-counts">
-            <span className="thumbs-up">👍 {reactions.thumbsUp.length}</span>
-            <span className="thumbs-down">👎 {reactions.thumbsDown.length}</span>
-          </div>
+          {/* Anonymous votes are counted up in secret and shown with the artist */}
+          {isSecret ? (
+            <div className="reaction-counts">
+              <span className="hidden-votes">🤫 Votes are shown with the artist</span>
+            </div>
+          ) : stars ? (
+            <div className="reaction-counts">
+              <span className="star-average">
+                ⭐ {rating?.count ? rating.average.toFixed(1) : "-"} ({rating?.count ?? 0} vote{rating?.count !== 1 ? "s" : ""})
+              </span>
+            </div>
+          ) : (
+            <div className="reaction-counts">
+              <span className="thumbs-up">👍 {artist?.thumbsUp ?? 0}</span>
+              <span className="thumbs-down">👎 {artist?.thumbsDown ?? 0}</span>
+            </div>
+          )}
+
+          {!isHost && localPlayer && !isOwnDrawing && votingOpen && stars && (
+            <div className="star-rating">
+              {Array.from({ length: MAX_STARS }, (_, index) => (
+                <button
+                  key={index}
+                  className={`star-btn ${ownRating && index < ownRating ? "active" : ""}`}
+                  onClick={() => onSubmitRating(slide.id, index + 1)}
+                  title={`${index + 1} star${index > 0 ? "s" : ""}`}
+                >
+                  ⭐
+                </button>
+              ))}
+            </div>
+          )}
 
           {/* Players can vote (but not on their own drawing and not if they're host) */}
-          {!isHost && localPlayer && currentPlayer.id !== localPlayer.id && (
+          {!isHost && localPlayer && !isOwnDrawing && votingOpen && !stars && (
             <div className="reaction-buttons">
               {!hasReacted ? (
                 <>
@@ -123,21 +194,103 @@ export function Slideshow({
             </div>
           )}
 
-          {!isHost && currentPlayer.id === localPlayer?.id && (
+          {!isHost && isOwnDrawing && (
             <p className="own-drawing-text">This is your masterpiece! 🎨</p>
           )}
 
-          {isHost && (
+          {!votingOpen && !isOwnDrawing && (
+            <p className="reacted-text">🎉 The votes are in!</p>
+          )}
+
+          {isHost && votingOpen && (
             <p className="host-text">Players are voting...</p>
           )}
+
+          {!isHost && paused && (
+            <p className="host-text">⏸️ The teacher has paused here to talk about this one</p>
+          )}
         </div>
+
+        {guesses.length > 0 && (
+          <div className="slide-guesses">
+            <h4>🤔 What everyone guessed</h4>
+            <ul className="guess-list">
+              {guesses.map(([guesserId, guess]) => (
+                <li key={guesserId}>
+                  {gameState.players.find((p) => p.id === guesserId)?.name ?? "Someone"}: &quot;{guess.text}&quot;{" "}
+                  <strong>{Math.round(guess.similarity * 100)}%</strong>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
       {isHost && (
         <div className="host-controls">
-          <button className="btn-secondary" onClick={onNextSlide}>
-            Skip to Next →
-          </button>
+          <div className="slide-nav">
+            <button
+              className="btn-secondary"
+              onClick={onPreviousSlide}
+              disabled={gameState.currentSlideIndex === 0}
+            >
+              ← Back
+            </button>
+            <button className="btn-secondary" onClick={() => onPause(!paused)}>
+              {paused ? "▶️ Resume" : "⏸️ Pause"}
+            </button>
+            {isSecret ? (
+              <button className="btn-secondary" onClick={onRevealArtist}>
+                🎭 Reveal Artist
+              </button>
+            ) : (
+              <button className="btn-secondary" onClick={onNextSlide}>
+                Next →
+              </button>
+            )}
+          </div>
+          <div className="replay-speed">
+            <span>Replay speed</span>
+            {REPLAY_SPEEDS.map((speed) => (
+              <button
+                key={speed}
+                className={`speed-btn ${gameState.replay?.speed === speed ? "active" : ""}`}
+                onClick={() => onSetReplaySpeed(speed)}
+              >
+                {speed}×
+              </button>
+            ))}
+          </div>
+          <div className="replay-speed">
+            <span>Advance</span>
+            {SLIDE_ADVANCES.map((option) => (
+              <button
+                key={option.advance}
+                className={`speed-btn ${slideAdvance === option.advance ? "active" : ""}`}
+                onClick={() => onSetSlideAdvance(option.advance)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="replay-speed">
+            <span>Order</span>
+            {GALLERY_ORDERS.map((option) => (
+              <button
+                key={option.order}
+                className={`speed-btn ${galleryOrder === option.order ? "active" : ""}`}
+                onClick={() => onSetGalleryOrder(option.order)}
+                disabled={anonymousVoting && !option.anonymous}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {artist && (
+            <button className="btn-secondary" onClick={() => onSetDrawingHidden(artist.id, true)}>
+              🙈 Hide Drawing
+            </button>
+          )}
         </div>
       )}
     </div>
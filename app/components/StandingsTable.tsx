@@ -0,0 +1,56 @@
+"use client";
+
+import { Standing, VOTE_POINTS } from "../lib/rounds";
+import { AWARD_POINTS, STAR_POINTS } from "../lib/voting";
+
+interface StandingsTableProps {
+  standings: Standing[];
+  localPlayerId?: string;
+}
+
+export function StandingsTable({ standings, localPlayerId }: StandingsTableProps) {
+  const roundCount = standings[0]?.roundTotals.length ?? 0;
+
+  return (
+    <div className="standings">
+      <table>
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Player</th>
+            {Array.from({ length: roundCount }, (_, index) => (
+              <th key={index}>R{index + 1}</th>
+            ))}
+            <th>🧠 Quiz</th>
+            <th>🗳️ Votes</th>
+            <th>🤔 Guesses</th>
+            <th>Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {standings.map((standing, index) => (
+            <tr key={standing.playerId} className={standing.playerId === localPlayerId ? "you" : ""}>
+              <td>{index + 1}</td>
+              <td className="standing-name">
+                {standing.name}
+                {standing.playerId === localPlayerId && <span className="you-badge">YOU</span>}
+              </td>
+              {standing.roundTotals.map((points, round) => (
+                <td key={round}>{points ?? "-"}</td>
+              ))}
+              <td>{standing.quizScore}</td>
+              <td>{standing.votePoints}</td>
+              <td>{standing.guessPoints}</td>
+              <td className="standing-total">{standing.total}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mode-hint">
+        Quiz points, plus {VOTE_POINTS} for every thumbs up or {STAR_POINTS} for every star, plus{" "}
+        {AWARD_POINTS} for each award won, plus points for guessing sentences and for drawings
+        others could guess.
+      </p>
+    </div>
+  );
+}
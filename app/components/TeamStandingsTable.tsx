@@ -0,0 +1,43 @@
+"use client";
+
+import { TeamStanding } from "../lib/rounds";
+
+interface TeamStandingsTableProps {
+  standings: TeamStanding[];
+  localTeamId?: string;
+}
+
+export function TeamStandingsTable({ standings, localTeamId }: TeamStandingsTableProps) {
+  return (
+    <div className="standings">
+      <table>
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Team</th>
+            <th>Members</th>
+            <th>Points</th>
+          </tr>
+        </thead>
+        <tbody>
+          {standings.map((standing, index) => (
+            <tr key={standing.teamId} className={standing.teamId === localTeamId ? "you" : ""}>
+              <td>{index + 1}</td>
+              <td className="standing-name">
+                <span className="team-dot" style={{ backgroundColor: standing.color }} />
+                {standing.name}
+                {standing.teamId === localTeamId && <span className="you-badge">YOU</span>}
+              </td>
+              <td className="team-members">{standing.members.join(", ")}</td>
+              <td className="standing-total">{standing.total}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mode-hint">
+        A team&apos;s points are the average of its members&apos; quiz, vote and guessing points,
+        so bigger teams don&apos;t get ahead.
+      </p>
+    </div>
+  );
+}
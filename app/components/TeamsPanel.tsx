@@ -0,0 +1,94 @@
+"use client";
+
+import { MIN_TEAMS, moveToTeam, shuffleTeams, TEAM_PRESETS } from "../lib/teams";
+import { GameState, Team } from "../lib/types";
+
+interface TeamsPanelProps {
+  gameState: GameState;
+  onChange: (teams: Team[]) => void;
+}
+
+const TEAM_COUNTS = TEAM_PRESETS.map((_, index) => index + 1).filter((count) => count >= MIN_TEAMS);
+
+export function TeamBadge({ team }: { team?: Team }) {
+  if (!team) return null;
+  return (
+    <span className="team-badge" style={{ backgroundColor: team.color }}>
+      {team.name}
+    </span>
+  );
+}
+
+export function TeamsPanel({ gameState, onChange }: TeamsPanelProps) {
+  const { teams } = gameState;
+  const participants = gameState.players.filter((p) => !p.isHost);
+  const unassigned = participants.filter((p) => !teams.some((t) => t.playerIds.includes(p.id)));
+
+  const teamSelect = (playerId: string, teamId = "") => (
+    <select
+      value={teamId}
+      onChange={(e) => onChange(moveToTeam(teams, playerId, e.target.value))}
+    >
+      {!teamId && <option value="">No team</option>}
+      {teams.map((team) => (
+        <option key={team.id} value={team.id}>
+          {team.name}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="moderation-panel">
+      <h3>👥 Teams</h3>
+
+      <label className="moderation-option">
+        Number of teams
+        <select
+          value={teams.length}
+          onChange={(e) => onChange(shuffleTeams(gameState, Number(e.target.value)))}
+        >
+          {TEAM_COUNTS.map((count) => (
+            <option key={count} value={count}>
+              {count}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <button className="btn-secondary" onClick={() => onChange(shuffleTeams(gameState, teams.length))}>
+        🔀 Shuffle Teams
+      </button>
+
+      <div className="team-list">
+        {teams.map((team) => (
+          <div key={team.id} className="team-card" style={{ borderColor: team.color }}>
+            <h4 style={{ color: team.color }}>{team.name}</h4>
+            <ul>
+              {participants
+                .filter((p) => team.playerIds.includes(p.id))
+                .map((player) => (
+                  <li key={player.id}>
+                    {player.name} {teamSelect(player.id, team.id)}
+                  </li>
+                ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {unassigned.length > 0 && (
+        <>
+          <p className="mode-hint">Not in a team yet - they&apos;ll join the smallest team if left out:</p>
+          <ul>
+            {unassigned.map((player) => (
+              <li key={player.id}>
+                {player.name} {teamSelect(player.id)}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
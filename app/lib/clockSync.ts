@@ -0,0 +1,36 @@
+// Players estimate how far their clock is from the host's, so everyone can
+// count down to the same deadline without the host ticking every second
+
+export const CLOCK_SYNC_SAMPLES = 5;
+export const CLOCK_SYNC_INTERVAL = 1000; // ms between pings
+
+export interface ClockPing {
+  sentAt: number; // player's clock
+}
+
+export interface ClockPong {
+  sentAt: number; // echoed from the ping
+  hostTime: number;
+}
+
+export class ClockSync {
+  private bestRoundTrip = Infinity;
+  // Host clock minus local clock
+  offset = 0;
+
+  // Assumes the reply took half the round trip; the quickest round trip seen
+  // gives the most trustworthy estimate
+  addSample(pong: ClockPong, receivedAt: number): number {
+    const roundTrip = receivedAt - pong.sentAt;
+    if (roundTrip < this.bestRoundTrip) {
+      this.bestRoundTrip = roundTrip;
+      this.offset = pong.hostTime + roundTrip / 2 - receivedAt;
+    }
+    return this.offset;
+  }
+
+  reset() {
+    this.bestRoundTrip = Infinity;
+    this.offset = 0;
+  }
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { getStroke } from "perfect-freehand";
+import { Drawing, DrawingAction, DrawingProgress, ToolType } from "./types";
+
+export interface Point {
+  x: number;
+  y: number;
+  pressure?: number;
+  t?: number; // when the point was drawn, in ms
+}
+
+export interface CanvasAction {
+  type: 'stroke' | 'fill';
+  points?: Point[];
+  color: string;
+  size: number;
+  toolType: ToolType;
+  fillX?: number;
+  fillY?: number;
+  t?: number; // when a fill was made; strokes time each point
+}
+
+function getSvgPathFromStroke(stroke: number[][]) {
+  if (!stroke.length) return "";
+
+  const d = stroke.reduce(
+    (acc, [x0, y0], i, arr) => {
+      const [x1, y1] = arr[(i + 1) % arr.length];
+      acc.push(x0, y0, (x0 + x1) / 2, (y0 + y1) / 2);
+      return acc;
+    },
+    ["M", ...stroke[0], "Q"]
+  );
+
+  d.push("Z");
+  return d.join(" ");
+}
+
+// Flood fill algorithm
+function floodFill(
+  ctx: CanvasRenderingContext2D,
+  startX: number,
+  startY: number,
+  fillColor: string,
+  width: number,
+  height: number
+) {
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+
+  // Convert hex to RGB
+  const hexToRgb = (hex: string) => {
+    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+    return result ? {
+      r: parseInt(result[1], 16),
+      g: parseInt(result[2], 16),
+      b: parseInt(result[3], 16)
+    } : { r: 0, g: 0, b: 0 };
+  };
+
+  const fillRgb = hexToRgb(fillColor);
+  const startIdx = (Math.floor(startY) * width + Math.floor(startX)) * 4;
+  const startR = data[startIdx];
+  const startG = data[startIdx + 1];
+  const startB = data[startIdx + 2];
+
+  // Don't fill if clicking on the same color
+  if (startR === fillRgb.r && startG === fillRgb.g && startB === fillRgb.b) {
+    return;
+  }
+
+  const tolerance = 32;
+  const matchesStart = (idx: number) => {
+    return (
+      Math.abs(data[idx] - startR) <= tolerance &&
+      Math.abs(data[idx + 1] - startG) <= tolerance &&
+      Math.abs(data[idx + 2] - startB) <= tolerance
+    );
+  };
+
+  const stack: [number, number][] = [[Math.floor(startX), Math.floor(startY)]];
+  // One flag per pixel - drawings are re-rendered at screen resolution, so
+  // this can cover a lot of pixels
+  const visited = new Uint8Array(width * height);
+
+  while (stack.length > 0) {
+    const [x, y] = stack.pop()!;
+
+    if (x < 0 || x >= width || y < 0 || y >= height) continue;
+    if (visited[y * width + x]) continue;
+
+    const idx = (y * width + x) * 4;
+    if (!matchesStart(idx)) continue;
+
+    visited[y * width + x] = 1;
+
+    data[idx] = fillRgb.r;
+    data[idx + 1] = fillRgb.g;
+    data[idx + 2] = fillRgb.b;
+    data[idx + 3] = 255;
+
+    stack.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+}
+
+// Draws actions on top of whatever is already on the canvas. Coordinates are
+// in drawing space; scale maps them onto the canvas's actual pixels.
+export function drawActions(
+  ctx: CanvasRenderingContext2D,
+  actions: CanvasAction[],
+  scale = 1
+) {
+  const { width, height } = ctx.canvas;
+  for (const action of actions) {
+    if (action.type === 'fill' && action.fillX !== undefined && action.fillY !== undefined) {
+      // Flood fill works on raw pixels, so it skips the transform
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      floodFill(ctx, action.fillX * scale, action.fillY * scale, action.color, width, height);
+    } else if (action.type === 'stroke' && action.points) {
+      const strokeOptions = action.toolType === 'brush'
+        ? { size: action.size, thinning: 0, smoothing: 0.7, streamline: 0.7 }
+        : { size: action.size, thinning: 0.5, smoothing: 0.5, streamline: 0.5 };
+
+      const outlinePoints = getStroke(
+        action.points.map((p) => [p.x, p.y, p.pressure || 0.5]),
+        strokeOptions
+      );
+
+      const pathData = getSvgPathFromStroke(outlinePoints);
+      const path = new Path2D(pathData);
+      ctx.setTransform(scale, 0, 0, scale, 0, 0);
+      ctx.fillStyle = action.color;
+      ctx.fill(path);
+    }
+  }
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+}
+
+// Draws a list of actions onto a white canvas
+export function renderActions(
+  ctx: CanvasRenderingContext2D,
+  actions: CanvasAction[],
+  scale = 1
+) {
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  drawActions(ctx, actions, scale);
+}
+
+const PRESSURE_STEPS = 100;
+const MAX_PAUSE = 500; // ms - longer breaks between points are cut short in the recording
+
+// Points are rounded to whole pixels and pressure to hundredths, then stored
+// as differences from the previous point, which keeps the numbers small.
+// Times count from the first action, with long pauses shortened.
+export function encodeDrawing(actions: CanvasAction[], width: number, height: number): Drawing {
+  const encoded: DrawingAction[] = [];
+  let clock = 0;
+  let lastTime: number | undefined;
+  const tick = (time: number | undefined) => {
+    if (time !== undefined) {
+      if (lastTime !== undefined) {
+        clock += Math.min(Math.max(0, Math.round(time - lastTime)), MAX_PAUSE);
+      }
+      lastTime = time;
+    }
+    return clock;
+  };
+
+  for (const action of actions) {
+    if (action.type === 'fill' && action.fillX !== undefined && action.fillY !== undefined) {
+      encoded.push({
+        type: 'fill',
+        color: action.color,
+        x: Math.round(action.fillX),
+        y: Math.round(action.fillY),
+        t: tick(action.t),
+      });
+    } else if (action.type === 'stroke' && action.points?.length) {
+      const points: number[] = [];
+      let prevX = 0;
+      let prevY = 0;
+      let prevPressure = 0;
+      let prevT = 0;
+      let start = 0;
+      action.points.forEach((point, index) => {
+        const x = Math.round(point.x);
+        const y = Math.round(point.y);
+        const pressure = Math.round((point.pressure || 0.5) * PRESSURE_STEPS);
+        // Repeated points add nothing to the stroke
+        if (index > 0 && x === prevX && y === prevY) return;
+        const t = tick(point.t);
+        if (index === 0) {
+          start = t;
+          prevT = t;
+        }
+        points.push(x - prevX, y - prevY, pressure - prevPressure, t - prevT);
+        prevX = x;
+        prevY = y;
+        prevPressure = pressure;
+        prevT = t;
+      });
+      encoded.push({
+        type: 'stroke',
+        tool: action.toolType,
+        color: action.color,
+        size: action.size,
+        t: start,
+        points,
+      });
+    }
+  }
+  return { width, height, actions: encoded };
+}
+
+export function decodeDrawing(drawing: Drawing): CanvasAction[] {
+  return drawing.actions.map((action): CanvasAction => {
+    if (action.type === 'fill') {
+      return {
+        type: 'fill',
+        color: action.color,
+        size: 0,
+        toolType: 'fill',
+        fillX: action.x,
+        fillY: action.y,
+        t: action.t,
+      };
+    }
+
+    const points: Point[] = [];
+    let x = 0;
+    let y = 0;
+    let pressure = 0;
+    let t = action.t;
+    for (let i = 0; i + 3 < action.points.length; i += 4) {
+      x += action.points[i];
+      y += action.points[i + 1];
+      pressure += action.points[i + 2];
+      t += action.points[i + 3];
+      points.push({ x, y, pressure: pressure / PRESSURE_STEPS, t });
+    }
+    return {
+      type: 'stroke',
+      t: action.t,
+      points,
+      color: action.color,
+      size: action.size,
+      toolType: action.tool,
+    };
+  });
+}
+
+// The host's copy of a canvas that's still being drawn on
+export function applyDrawingProgress(drawing: Drawing | undefined, progress: DrawingProgress): Drawing {
+  return {
+    width: progress.width,
+    height: progress.height,
+    actions: [...(drawing?.actions ?? []).slice(0, progress.from), ...progress.actions],
+  };
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  createReplica,
+  HostSecrets,
+  pickBackupHost,
+  prepareTakeover,
+  restoreSecrets,
+} from "./hostMigration";
+import { MemoryHub } from "./memoryTransport";
+import { createMemoryNetwork } from "./networking";
+import { getSessionKey } from "./session";
+import {
+  createInitialGameState,
+  DEFAULT_MODERATION,
+  DEFAULT_ROOM_ACCESS,
+  GameState,
+  Player,
+  QUIZ_QUESTIONS,
+} from "./types";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function makePlayer(id: string, name: string, isHost = false): Player {
+  return { id, name, isHost, quizScore: 0, quizCorrect: 0, thumbsUp: 0, thumbsDown: 0 };
+}
+
+function makeRoom(): GameState {
+  return {
+    ...createInitialGameState("ROOM42"),
+    players: [
+      makePlayer("teacher", "Teacher", true),
+      makePlayer("ada", "Ada"),
+      makePlayer("bo", "Bo"),
+    ],
+    access: { ...DEFAULT_ROOM_ACCESS, password: "owl" },
+    quizAnswers: { ada: [QUIZ_QUESTIONS[0].correctIndex] },
+    quizAnswerTimes: { ada: [1000] },
+    questionStartTimes: [0],
+  };
+}
+
+const secrets: HostSecrets = {
+  questions: QUIZ_QUESTIONS,
+  moderation: DEFAULT_MODERATION,
+  password: "owl",
+};
+
+describe("picking a backup", () => {
+  it("picks a connected student, never the teacher", () => {
+    const state = makeRoom();
+    expect(pickBackupHost(state, "teacher")).toBe("ada");
+    const adaAway = {
+      ...state,
+      players: state.players.map((p) => (p.id === "ada" ? { ...p, disconnectedAt: 1 } : p)),
+    };
+    expect(pickBackupHost(adaAway, "teacher")).toBe("bo");
+  });
+});
+
+describe("replicas", () => {
+  it("leave the teacher's secrets behind", () => {
+    const sessions = new Map([[getSessionKey("ada-token"), "ada"]]);
+    const { state, sessions: sent } = createReplica(makeRoom(), sessions);
+
+    expect(state.answerKey).toBeUndefined();
+    expect(state.moderation).toBeUndefined();
+    expect(state.access?.password).toBe("");
+    expect(state.access?.passwordWithheld).toBe(true);
+    expect(Object.keys(sent)).not.toContain("ada-token");
+    expect(sent[getSessionKey("ada-token")]).toBe("ada");
+  });
+
+  it("get their secrets back on the teacher's device", () => {
+    const { state } = createReplica(makeRoom(), new Map());
+    const restored = restoreSecrets(state, secrets);
+
+    expect(restored.answerKey).toEqual(QUIZ_QUESTIONS.map((q) => q.correctIndex));
+    expect(restored.access?.password).toBe("owl");
+    expect(restored.access?.passwordWithheld).toBeUndefined();
+    expect(restored.players.find((p) => p.id === "ada")?.quizCorrect).toBe(1);
+  });
+
+  it("keep the answer key away when the teacher's bank is a different one", () => {
+    const { state } = createReplica(makeRoom(), new Map());
+    const restored = restoreSecrets(state, { ...secrets, questions: QUIZ_QUESTIONS.slice(1) });
+
+    expect(restored.answerKey).toBeUndefined();
+  });
+});
+
+describe("taking over the room", () => {
+  it("puts every other seat in the reconnect grace period on the new clock", () => {
+    const state = { ...makeRoom(), endsAt: 10_000, backupHostId: "ada" };
+    const takenOver = prepareTakeover({ state, sessions: {} }, "ada", 2_000);
+
+    expect(takenOver.endsAt).toBe(8_000);
+    expect(takenOver.backupHostId).toBeUndefined();
+    expect(takenOver.players.find((p) => p.id === "ada")?.disconnectedAt).toBeUndefined();
+    expect(takenOver.players.find((p) => p.id === "bo")?.disconnectedAt).toBeDefined();
+  });
+
+  it("lets the backup claim the room's address once the host is gone", async () => {
+    const hub = new MemoryHub();
+    const host = createMemoryNetwork(hub);
+    const roomCode = await host.createRoom();
+    const backup = createMemoryNetwork(hub);
+    const backupId = await backup.joinRoom(roomCode, "Ada", "ada-token");
+    const lost: string[] = [];
+    backup.onDisconnection((peerId) => lost.push(peerId));
+
+    host.disconnect();
+    await flush();
+    expect(lost).toEqual([`drawg-host-${roomCode}`]);
+
+    backup.disconnect();
+    const takeover = createMemoryNetwork(hub);
+    await takeover.createRoom(roomCode, backupId);
+    expect(takeover.playerId).toBe(backupId);
+
+    // Everyone else finds the room at the same code
+    const joined: string[] = [];
+    takeover.onMessage((message) => joined.push(message.senderId));
+    const other = createMemoryNetwork(hub);
+    const otherId = await other.joinRoom(roomCode, "Bo", "bo-token");
+    await flush();
+    expect(joined).toEqual([otherId]);
+  });
+});
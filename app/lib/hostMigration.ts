@@ -0,0 +1,102 @@
+"use client";
+
+import { scorePlayers } from "./scoring";
+import { GameState, ModerationSettings, QuizQuestion } from "./types";
+
+export const REPLICATION_INTERVAL = 2000; // ms between state copies sent to the backup
+export const TAKEOVER_DELAY = 1500; // ms the backup waits before claiming the room
+
+// Everything a peer needs to run the room after the current host is gone
+export interface HostReplica {
+  state: GameState;
+  sessions: Record<string, string>; // session key -> player ID
+}
+
+// What only the teacher's device keeps, and so never goes to a backup
+export interface HostSecrets {
+  questions: QuizQuestion[]; // the selected bank, answers included
+  moderation: ModerationSettings;
+  password?: string;
+}
+
+// The backup is a student's device: it gets no answer key, moderation rules
+// or room password. Sessions are filed by key, so those can go as they are.
+export function createReplica(state: GameState, sessions: Map<string, string>): HostReplica {
+  const access = state.access && {
+    ...state.access,
+    password: "",
+    passwordWithheld: !!state.access.password || state.access.passwordWithheld,
+  };
+  return {
+    state: { ...state, answerKey: undefined, moderation: undefined, access },
+    sessions: Object.fromEntries(sessions),
+  };
+}
+
+// Back on the teacher's device, the room gets its secrets again. The answer key
+// only comes back if the bank on this device is the one being played.
+export function restoreSecrets(state: GameState, secrets: HostSecrets): GameState {
+  const sameBank =
+    secrets.questions.length === state.quizQuestions.length &&
+    secrets.questions.every((q, i) => q.question === state.quizQuestions[i].question);
+  const access = state.access?.passwordWithheld && secrets.password
+    ? { ...state.access, password: secrets.password, passwordWithheld: undefined }
+    : state.access;
+  return scorePlayers({
+    ...state,
+    answerKey: sameBank ? secrets.questions.map((q) => q.correctIndex) : state.answerKey,
+    moderation: state.moderation ?? secrets.moderation,
+    access,
+  });
+}
+
+// Keep the current backup while it's still connected, otherwise pick the first
+// connected participant
+export function pickBackupHost(state: GameState, authorityId: string): string | undefined {
+  const candidates = state.players.filter(
+    (p) => !p.isHost && !p.disconnectedAt && p.id !== authorityId
+  );
+  if (candidates.some((p) => p.id === state.backupHostId)) {
+    return state.backupHostId;
+  }
+  return candidates[0]?.id;
+}
+
+// Timestamps in the state are on the old host's clock; move them onto this
+// peer's clock (clockOffset is old host time minus local time)
+function rebaseClock(state: GameState, clockOffset: number): GameState {
+  if (clockOffset === 0) return state;
+  const shift = (time: number) => (time ? time - clockOffset : time);
+  return {
+    ...state,
+    endsAt: state.endsAt === null ? null : shift(state.endsAt),
+    replay: state.replay && { ...state.replay, startedAt: shift(state.replay.startedAt) },
+    questionStartTimes: state.questionStartTimes.map(shift),
+    quizAnswerTimes: Object.fromEntries(
+      Object.entries(state.quizAnswerTimes).map(([id, times]) => [id, times.map(shift)])
+    ),
+    players: state.players.map((p) =>
+      p.disconnectedAt ? { ...p, disconnectedAt: shift(p.disconnectedAt) } : p
+    ),
+  };
+}
+
+// Everyone but the new authority has to reconnect to it, so their seats start
+// in the reconnect grace period
+export function prepareTakeover(
+  replica: HostReplica,
+  authorityId: string,
+  clockOffset: number
+): GameState {
+  const state = rebaseClock(replica.state, clockOffset);
+  const disconnectedAt = Date.now();
+  return {
+    ...state,
+    backupHostId: undefined,
+    players: state.players.map((p) =>
+      p.id === authorityId
+        ? { ...p, disconnectedAt: undefined }
+        : { ...p, disconnectedAt: p.disconnectedAt ?? disconnectedAt }
+    ),
+  };
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { RoomAddress, TransportKind } from "./transport";
+import { RELAY_PARAM } from "./websocketTransport";
+
+const ROOM_PARAM = "room";
+const TRANSPORT_PARAM = "transport";
+
+// A link to this app that opens the join form with the room code filled in.
+// Rooms on the relay also carry its address, since players can't guess it.
+export function getJoinUrl(roomCode: string, address: RoomAddress | null): string {
+  const url = new URL(window.location.pathname, window.location.origin);
+  url.searchParams.set(ROOM_PARAM, roomCode);
+  if (address?.transport === "websocket") {
+    url.searchParams.set(TRANSPORT_PARAM, address.transport);
+    if (address.relayUrl) url.searchParams.set(RELAY_PARAM, address.relayUrl);
+  }
+  return url.toString();
+}
+
+export function readRoomFromUrl(): string | null {
+  if (typeof window === "undefined") return null;
+  const code = new URLSearchParams(window.location.search).get(ROOM_PARAM);
+  return code ? code.trim().toUpperCase() : null;
+}
+
+export function readTransportFromUrl(): TransportKind | null {
+  if (typeof window === "undefined") return null;
+  const transport = new URLSearchParams(window.location.search).get(TRANSPORT_PARAM);
+  return transport === "peerjs" || transport === "websocket" ? transport : null;
+}
+
+const subscribeToUrl = () => () => {};
+
+// The room code from a join link. Null during server rendering, so the first
+// client render matches the server's and the link takes effect right after.
+export function useRoomFromUrl(): string | null {
+  return useSyncExternalStore(subscribeToUrl, readRoomFromUrl, () => null);
+}
+
+// The connection a join link asks for, null when it doesn't name one
+export function useTransportFromUrl(): TransportKind | null {
+  return useSyncExternalStore(subscribeToUrl, readTransportFromUrl, () => null);
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { BaseTransport, ConnectOptions, TransportError } from "./transport";
+import { GameMessage } from "./types";
+
+// Shared address space for in-memory transports, e.g. one per test
+export class MemoryHub {
+  peers: Map<string, MemoryTransport> = new Map();
+}
+
+// Delivers messages within the same page, for exercising multiplayer flows
+// without a network
+export class MemoryTransport extends BaseTransport {
+  private peerId: string | null = null;
+  private links: Map<string, MemoryTransport> = new Map();
+  private isHost: boolean = false;
+
+  constructor(private hub: MemoryHub) {
+    super();
+  }
+
+  async connect({ peerId, hostId, metadata }: ConnectOptions): Promise<void> {
+    if (this.hub.peers.has(peerId)) {
+      throw new TransportError("unavailable-id", `ID "${peerId}" is taken`);
+    }
+
+    this.isHost = !hostId;
+    if (hostId) {
+      const host = this.hub.peers.get(hostId);
+      if (!host) {
+        throw new TransportError("peer-unavailable", `Could not connect to peer ${hostId}`);
+      }
+      this.links.set(hostId, host);
+      host.links.set(peerId, this);
+      queueMicrotask(() => host.emitConnection(peerId, metadata));
+    }
+
+    this.peerId = peerId;
+    this.hub.peers.set(peerId, this);
+  }
+
+  // Stamped with the sending peer, like the real transports do
+  private deliver(message: GameMessage, from: string | null) {
+    if (!from) return;
+    // Async like a real network, so handlers never run re-entrantly
+    queueMicrotask(() => this.emitMessage({ ...message, senderId: from }));
+  }
+
+  send(message: GameMessage) {
+    if (this.isHost) {
+      this.links.forEach((link) => link.deliver(message, this.peerId));
+    } else {
+      this.links.values().next().value?.deliver(message, this.peerId);
+    }
+  }
+
+  sendToPlayer(peerId: string, message: GameMessage) {
+    this.links.get(peerId)?.deliver(message, this.peerId);
+  }
+
+  getPeerIds(): string[] {
+    return this.isHost ? [...this.links.keys()] : [];
+  }
+
+  disconnectPeer(peerId: string) {
+    const link = this.links.get(peerId);
+    if (!link || !this.peerId) return;
+
+    const ownId = this.peerId;
+    this.links.delete(peerId);
+    link.links.delete(ownId);
+    queueMicrotask(() => {
+      this.emitDisconnection(peerId);
+      link.emitDisconnection(ownId);
+    });
+  }
+
+  disconnect() {
+    const peerId = this.peerId;
+    if (!peerId) return;
+
+    this.links.forEach((link) => {
+      link.links.delete(peerId);
+      queueMicrotask(() => link.emitDisconnection(peerId));
+    });
+    this.links.clear();
+    this.hub.peers.delete(peerId);
+    this.peerId = null;
+  }
+}
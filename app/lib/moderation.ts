@@ -0,0 +1,142 @@
+"use client";
+
+import { DEFAULT_MODERATION, GameState, ModerationSettings, Player } from "./types";
+
+const MODERATION_KEY = "drawg-moderation";
+
+// Kept short on purpose - teachers add whatever else their class needs
+const BUILT_IN_BLOCKLIST = [
+  "arse",
+  "ass",
+  "asshole",
+  "bastard",
+  "bitch",
+  "bollocks",
+  "crap",
+  "cunt",
+  "damn",
+  "dick",
+  "fuck",
+  "piss",
+  "prick",
+  "shit",
+  "slut",
+  "twat",
+  "wank",
+  "whore",
+];
+
+// Common letter swaps used to sneak words past a filter
+const LOOKALIKES: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  "$": "s",
+  "!": "i",
+};
+
+const SUFFIXES = ["", "s", "es", "ed", "er", "ers", "ing", "y"];
+
+export function loadModerationSettings(): ModerationSettings {
+  if (typeof window === "undefined") return DEFAULT_MODERATION;
+  try {
+    const raw = window.localStorage.getItem(MODERATION_KEY);
+    return raw ? { ...DEFAULT_MODERATION, ...(JSON.parse(raw) as ModerationSettings) } : DEFAULT_MODERATION;
+  } catch {
+    return DEFAULT_MODERATION;
+  }
+}
+
+export function saveModerationSettings(settings: ModerationSettings) {
+  window.localStorage.setItem(MODERATION_KEY, JSON.stringify(settings));
+}
+
+// One entry per line or comma, lower-cased, without blanks or repeats
+export function parseBlockedWords(text: string): string[] {
+  const words = text
+    .split(/[\n,]/)
+    .map((w) => w.trim().toLowerCase())
+    .filter((w) => w);
+  return [...new Set(words)];
+}
+
+function normalizeWords(text: string): string[] {
+  const swapped = [...text.toLowerCase()].map((c) => LOOKALIKES[c] ?? c).join("");
+  return swapped.split(/[^a-z]+/).filter((w) => w);
+}
+
+// Blocked words used in the text, matched as whole words (plus common endings)
+// so innocent words like "class" or "grass" get through
+export function findBlockedWords(text: string, settings: ModerationSettings): string[] {
+  if (!settings.filterWords) return [];
+  const blocklist = [...BUILT_IN_BLOCKLIST, ...settings.blockedWords];
+  const found = new Set<string>();
+  for (const word of normalizeWords(text)) {
+    for (const blocked of blocklist) {
+      if (SUFFIXES.some((suffix) => word === blocked + suffix)) {
+        found.add(blocked);
+      }
+    }
+  }
+  return [...found];
+}
+
+// A submitted sentence goes straight through, waits for the teacher, or is
+// turned away so the player writes another
+export function moderateSentence(
+  player: Player,
+  sentence: string,
+  settings: ModerationSettings = DEFAULT_MODERATION
+): Player {
+  if (findBlockedWords(sentence, settings).length > 0) {
+    return { ...player, sentence: undefined, sentenceStatus: 'rejected' };
+  }
+  return {
+    ...player,
+    sentence,
+    sentenceStatus: settings.reviewSentences ? 'pending' : 'approved',
+  };
+}
+
+export function isSentenceApproved(player: Player): boolean {
+  return player.sentenceStatus === 'approved' && !!player.sentence?.trim();
+}
+
+// Takes a player out of the room along with everything keyed by them, and
+// their drawing unless teammates still share it
+export function removePlayer(state: GameState, playerId: string): GameState {
+  const omit = <T>(record: Record<string, T>): Record<string, T> =>
+    Object.fromEntries(Object.entries(record).filter(([id]) => id !== playerId));
+
+  const drawingId = state.players.find((p) => p.id === playerId)?.drawingId;
+  const shared = state.players.some((p) => p.id !== playerId && p.drawingId === drawingId);
+  const omitDrawing = <T>(record: Record<string, T>): Record<string, T> =>
+    Object.fromEntries(Object.entries(record).filter(([id]) => shared || id !== drawingId));
+
+  return {
+    ...state,
+    players: state.players.filter((p) => p.id !== playerId),
+    teams: state.teams.map((team) => ({
+      ...team,
+      playerIds: team.playerIds.filter((id) => id !== playerId),
+    })),
+    quizAnswers: omit(state.quizAnswers),
+    quizAnswerTimes: omit(state.quizAnswerTimes),
+    slideOrder: state.slideOrder.filter((id) => shared || id !== drawingId),
+    reactions: omitDrawing(state.reactions),
+    ratings: Object.fromEntries(
+      Object.entries(omitDrawing(state.ratings)).map(([id, votes]) => [id, omit(votes)])
+    ),
+    categoryVotes: Object.fromEntries(
+      Object.entries(state.categoryVotes).map(([category, votes]) => [category, omit(votes)])
+    ),
+    rankedBallots: omit(state.rankedBallots),
+    promptGuesses: Object.fromEntries(
+      Object.entries(omitDrawing(state.promptGuesses)).map(([id, guesses]) => [id, omit(guesses)])
+    ),
+  };
+}
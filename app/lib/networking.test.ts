@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { MemoryHub } from "./memoryTransport";
+import { createMemoryNetwork, JoinMetadata } from "./networking";
+import { projectStateFor } from "./projection";
+import { StateDelta, StateSnapshot, StateSyncReceiver } from "./stateSync";
+import { createInitialGameState, GameMessage, GameState, Player } from "./types";
+
+// Memory transports deliver on microtasks, so one macrotask lets them all land
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function makePlayer(id: string, name: string, isHost = false): Player {
+  return { id, name, isHost, quizScore: 0, quizCorrect: 0, thumbsUp: 0, thumbsDown: 0 };
+}
+
+async function openRoom() {
+  const hub = new MemoryHub();
+  const host = createMemoryNetwork(hub);
+  const roomCode = await host.createRoom();
+  const messages: GameMessage[] = [];
+  host.onMessage((message) => messages.push(message));
+  return { hub, host, roomCode, messages };
+}
+
+describe("joining a room", () => {
+  it("gives the host the player's details and join message", async () => {
+    const { hub, host, roomCode, messages } = await openRoom();
+    const connections: [string, JoinMetadata | undefined][] = [];
+    host.onConnection((peerId, metadata) => connections.push([peerId, metadata]));
+
+    const player = createMemoryNetwork(hub);
+    const playerId = await player.joinRoom(roomCode.toLowerCase(), "Ada", "token-1", "secret");
+    await flush();
+
+    expect(connections).toEqual([
+      [playerId, { playerName: "Ada", sessionToken: "token-1", password: "secret" }],
+    ]);
+    expect(messages).toEqual([
+      {
+        type: "player_joined",
+        payload: { playerName: "Ada", sessionToken: "token-1" },
+        senderId: playerId,
+      },
+    ]);
+  });
+
+  it("says so when the room doesn't exist", async () => {
+    const player = createMemoryNetwork(new MemoryHub());
+    await expect(player.joinRoom("NOROOM", "Ada", "token-1")).rejects.toThrow("Room not found");
+  });
+
+  it("takes the sender from the connection, not the message", async () => {
+    const { hub, roomCode, messages } = await openRoom();
+    const player = createMemoryNetwork(hub);
+    const playerId = await player.joinRoom(roomCode, "Ada", "token-1");
+
+    player.send({ type: "submit_guess", payload: { guess: "a cat" }, senderId: "someone-else" });
+    await flush();
+
+    expect(messages.map((m) => m.senderId)).toEqual([playerId, playerId]);
+  });
+});
+
+describe("state sync", () => {
+  async function roomWithPlayer() {
+    const room = await openRoom();
+    const player = createMemoryNetwork(room.hub);
+    const playerId = await player.joinRoom(room.roomCode, "Ada", "token-1");
+    const received: GameMessage[] = [];
+    player.onMessage((message) => received.push(message));
+
+    const state: GameState = {
+      ...createInitialGameState(room.roomCode),
+      players: [makePlayer(room.host.playerId, "Teacher", true), makePlayer(playerId, "Ada")],
+    };
+    return { ...room, player, playerId, received, state };
+  }
+
+  it("sends a snapshot first, then only what changed", async () => {
+    const { host, playerId, received, state } = await roomWithPlayer();
+    const receiver = new StateSyncReceiver(() => {
+      throw new Error("no resync expected");
+    });
+
+    host.broadcastGameState(state);
+    const next: GameState = { ...state, phase: "sentence_submission" };
+    host.broadcastGameState(next);
+    await flush();
+
+    expect(received.map((m) => m.type)).toEqual(["game_state_update", "game_state_patch"]);
+    receiver.receiveSnapshot(received[0].payload as StateSnapshot);
+    const synced = receiver.receiveDelta(received[1].payload as StateDelta);
+    expect(synced).toEqual(projectStateFor(next, playerId));
+  });
+
+  it("keeps the answer key and room settings off the player", async () => {
+    const { host, received, state } = await roomWithPlayer();
+
+    host.broadcastGameState(state);
+    await flush();
+
+    const { state: sent } = received[0].payload as StateSnapshot;
+    expect(sent.answerKey).toBeUndefined();
+    expect(sent.access).toBeUndefined();
+    expect(sent.moderation).toBeUndefined();
+  });
+
+  it("sends nothing more to a refused peer", async () => {
+    const { host, playerId, received, state } = await roomWithPlayer();
+
+    host.refusePeer(playerId);
+    host.broadcastGameState(state);
+    await flush();
+
+    expect(received).toEqual([]);
+  });
+});
@@ -1,132 +1,143 @@
 "use client";
 
-import Peer, { DataConnection } from "peerjs";
-import { GameMessage, GameState, Player } from "./types";
+import { MemoryHub, MemoryTransport } from "./memoryTransport";
+import { PeerTransport } from "./peerTransport";
+import { projectStateFor } from "./projection";
+import { StateSyncSender } from "./stateSync";
+import { RoomAddress, Transport, TransportError, TransportKind } from "./transport";
+import { WebSocketTransport } from "./websocketTransport";
+import { DEFAULT_ROOM_CODE_LENGTH, GameMessage, GameState } from "./types";
 
 type MessageHandler = (message: GameMessage) => void;
-type ConnectionHandler = (playerId: string) => void;
+type ConnectionHandler = (playerId: string, metadata?: JoinMetadata) => void;
+
+// What a player hands the host when connecting
+export interface JoinMetadata {
+  playerName: string;
+  sessionToken: string;
+  password?: string;
+}
+
+const ROOM_CODE_ATTEMPTS = 5; // fresh codes tried when one is already in use
+
+// In-memory rooms share one address space per page unless given their own hub
+const defaultMemoryHub = new MemoryHub();
+
+export function createTransport(kind: TransportKind): Transport {
+  switch (kind) {
+    case "websocket":
+      return new WebSocketTransport();
+    case "memory":
+      return new MemoryTransport(defaultMemoryHub);
+    case "peerjs":
+    default:
+      return new PeerTransport();
+  }
+}
 
 export class GameNetwork {
-  private peer: Peer | null = null;
-  private connections: Map<string, DataConnection> = new Map();
-  private hostConnection: DataConnection | null = null;
+  private transport: Transport;
   private messageHandlers: MessageHandler[] = [];
   private connectionHandlers: ConnectionHandler[] = [];
   private disconnectionHandlers: ConnectionHandler[] = [];
   public playerId: string = "";
   public isHost: boolean = false;
   private roomCode: string = "";
+  private sync = new StateSyncSender();
+  private refused = new Set<string>();
+
+  constructor(
+    transport: Transport = new PeerTransport(),
+    public readonly transportKind: TransportKind = "peerjs"
+  ) {
+    this.transport = transport;
+    this.transport.onMessage((message) => {
+      this.messageHandlers.forEach((handler) => handler(message));
+    });
+    this.transport.onConnection((peerId, metadata) => {
+      this.connectionHandlers.forEach((handler) => handler(peerId, metadata as JoinMetadata));
+    });
+    this.transport.onDisconnection((peerId) => {
+      this.sync.forget(peerId);
+      this.refused.delete(peerId);
+      this.disconnectionHandlers.forEach((handler) => handler(peerId));
+    });
+  }
 
-  generateRoomCode(): string {
+  generateRoomCode(length: number = DEFAULT_ROOM_CODE_LENGTH): string {
     const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+    // Crypto randomness, so codes can't be predicted from earlier ones
+    const values = crypto.getRandomValues(new Uint32Array(length));
     let code = "";
-    for (let i = 0; i < 4; i++) {
-      code += chars[Math.floor(Math.random() * chars.length)];
+    for (let i = 0; i < length; i++) {
+      code += chars[values[i] % chars.length];
     }
     return code;
   }
 
-  async createRoom(): Promise<string> {
-    this.roomCode = this.generateRoomCode();
-    this.isHost = true;
-    
-    return new Promise((resolve, reject) => {
-      // Create peer with room code as ID (host)
-      this.peer = new Peer(`drawg-host-${this.roomCode}`, {
-        debug: 1,
-      });
-
-      this.peer.on("open", (id) => {
-        this.playerId = id;
-        console.log("Host peer opened with ID:", id);
-        resolve(this.roomCode);
-      });
-
-      this.peer.on("connection", (conn) => {
-        console.log("Player connecting:", conn.peer);
-        this.setupConnection(conn);
-      });
+  generatePlayerId(): string {
+    return `drawg-player-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
 
-      this.peer.on("error", (err) => {
-        console.error("Peer error:", err);
-        reject(err);
-      });
-    });
+  // Pass an existing room code and player ID to take over a room from a lost
+  // host. A new room tries another code if its first pick is already taken.
+  async createRoom(
+    roomCode?: string,
+    playerId?: string,
+    codeLength: number = DEFAULT_ROOM_CODE_LENGTH
+  ): Promise<string> {
+    this.isHost = true;
+    // The peer ID is the room's address; the host's player identity is separate
+    // so it survives the room moving to another peer
+    this.playerId = playerId ?? this.generatePlayerId();
+
+    for (let attempt = 1; ; attempt++) {
+      this.roomCode = roomCode ?? this.generateRoomCode(codeLength);
+      try {
+        await this.transport.connect({ peerId: `drawg-host-${this.roomCode}` });
+        break;
+      } catch (err) {
+        const taken = err instanceof TransportError && err.type === "unavailable-id";
+        if (roomCode || !taken || attempt >= ROOM_CODE_ATTEMPTS) throw err;
+        this.transport.disconnect();
+      }
+    }
+    console.log("Hosting room:", this.roomCode);
+    return this.roomCode;
   }
 
-  async joinRoom(roomCode: string, playerName: string): Promise<string> {
+  async joinRoom(
+    roomCode: string,
+    playerName: string,
+    sessionToken: string,
+    password?: string
+  ): Promise<string> {
     this.roomCode = roomCode.toUpperCase();
     this.isHost = false;
-
-    return new Promise((resolve, reject) => {
-      // Create peer with unique ID for player
-      const playerId = `drawg-player-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      this.peer = new Peer(playerId, {
-        debug: 1,
+    this.playerId = this.generatePlayerId();
+
+    try {
+      const metadata: JoinMetadata = { playerName, sessionToken, password };
+      await this.transport.connect({
+        peerId: this.playerId,
+        hostId: `drawg-host-${this.roomCode}`,
+        metadata,
       });
+    } catch (err) {
+      if (err instanceof TransportError && err.type === "peer-unavailable") {
+        throw new Error("Room not found. Please check the code.");
+      }
+      throw err;
+    }
 
-      this.peer.on("open", (id) => {
-        this.playerId = id;
-        console.log("Player peer opened with ID:", id);
-
-        // Connect to host
-        const hostId = `drawg-host-${this.roomCode}`;
-        const conn = this.peer!.connect(hostId, {
-          reliable: true,
-          metadata: { playerName },
-        });
-
-        conn.on("open", () => {
-          console.log("Connected to host");
-          this.hostConnection = conn;
-          this.setupConnection(conn);
-          
-          // Send join message
-          this.send({
-            type: "player_joined",
-            payload: { playerName },
-            senderId: this.playerId,
-          });
-          
-          resolve(this.playerId);
-        });
-
-        conn.on("error", (err) => {
-          console.error("Connection error:", err);
-          reject(err);
-        });
-      });
-
-      this.peer.on("error", (err) => {
-        console.error("Peer error:", err);
-        if (err.type === "peer-unavailable") {
-          reject(new Error("Room not found. Please check the code."));
-        } else {
-          reject(err);
-        }
-      });
-    });
-  }
-
-  private setupConnection(conn: DataConnection) {
-    conn.on("open", () => {
-      this.connections.set(conn.peer, conn);
-      this.connectionHandlers.forEach((handler) => handler(conn.peer));
-    });
-
-    conn.on("data", (data) => {
-      const message = data as GameMessage;
-      this.messageHandlers.forEach((handler) => handler(message));
-    });
-
-    conn.on("close", () => {
-      this.connections.delete(conn.peer);
-      this.disconnectionHandlers.forEach((handler) => handler(conn.peer));
+    // Send join message
+    this.send({
+      type: "player_joined",
+      payload: { playerName, sessionToken },
+      senderId: this.playerId,
     });
 
-    conn.on("error", (err) => {
-      console.error("Connection error:", err);
-    });
+    return this.playerId;
   }
 
   onMessage(handler: MessageHandler) {
@@ -151,53 +162,73 @@ export class GameNetwork {
   }
 
   send(message: GameMessage) {
-    if (this.isHost) {
-      // Host broadcasts to all players
-      this.connections.forEach((conn) => {
-        if (conn.open) {
-          conn.send(message);
-        }
-      });
-    } else if (this.hostConnection?.open) {
-      // Player sends to host
-      this.hostConnection.send(message);
-    }
+    this.transport.send(message);
   }
 
   sendToPlayer(playerId: string, message: GameMessage) {
-    const conn = this.connections.get(playerId);
-    if (conn?.open) {
-      conn.send(message);
-    }
+    this.transport.sendToPlayer(playerId, message);
   }
 
+  // Each player gets their own view of the state, and after the first
+  // snapshot only what changed in it
   broadcastGameState(state: GameState) {
-    this.send({
+    this.transport.getPeerIds().forEach((peerId) => {
+      if (this.refused.has(peerId)) return;
+      if (!this.sync.hasSent(peerId)) {
+        this.sendGameState(peerId, state);
+        return;
+      }
+      const delta = this.sync.delta(peerId, projectStateFor(state, peerId));
+      if (delta) {
+        this.sendToPlayer(peerId, {
+          type: "game_state_patch",
+          payload: delta,
+          senderId: this.playerId,
+        });
+      }
+    });
+  }
+
+  sendGameState(peerId: string, state: GameState) {
+    this.sendToPlayer(peerId, {
       type: "game_state_update",
-      payload: state,
+      payload: this.sync.snapshot(peerId, projectStateFor(state, peerId)),
       senderId: this.playerId,
     });
   }
 
+  // Host only: a refused peer gets no state while it waits to be cut off
+  refusePeer(peerId: string) {
+    this.refused.add(peerId);
+  }
+
+  // Host only: cut a player off, e.g. after removing them from the room
+  disconnectPlayer(peerId: string) {
+    this.transport.disconnectPeer(peerId);
+  }
+
   disconnect() {
-    this.connections.forEach((conn) => conn.close());
-    this.connections.clear();
-    this.hostConnection?.close();
-    this.peer?.destroy();
-    this.peer = null;
+    // Intentional teardown shouldn't look like a dropped connection
+    this.disconnectionHandlers = [];
+    this.transport.disconnect();
+  }
+
+  getAddress(): RoomAddress {
+    const relayUrl = this.transport instanceof WebSocketTransport ? this.transport.url : null;
+    return { transport: this.transportKind, relayUrl };
   }
 
   getConnectionCount(): number {
-    return this.connections.size;
+    return this.transport.getPeerIds().length;
   }
 }
 
 // Singleton instance
 let networkInstance: GameNetwork | null = null;
 
-export function getNetwork(): GameNetwork {
+export function getNetwork(transportKind: TransportKind = "peerjs"): GameNetwork {
   if (!networkInstance) {
-    networkInstance = new GameNetwork();
+    networkInstance = new GameNetwork(createTransport(transportKind), transportKind);
   }
   return networkInstance;
 }
@@ -208,3 +239,8 @@ export function resetNetwork() {
     networkInstance = null;
   }
 }
+
+// Wire a whole room up inside one page, e.g. to test multiplayer flows
+export function createMemoryNetwork(hub: MemoryHub = defaultMemoryHub): GameNetwork {
+  return new GameNetwork(new MemoryTransport(hub), "memory");
+}
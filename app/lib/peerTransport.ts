@@ -0,0 +1,121 @@
+"use client";
+
+import Peer, { DataConnection } from "peerjs";
+import { BaseTransport, ConnectOptions, TransportError } from "./transport";
+import { GameMessage } from "./types";
+
+// WebRTC data channels brokered by the public PeerJS server
+export class PeerTransport extends BaseTransport {
+  private peer: Peer | null = null;
+  private connections: Map<string, DataConnection> = new Map();
+  private hostConnection: DataConnection | null = null;
+  private isHost: boolean = false;
+
+  connect({ peerId, hostId, metadata }: ConnectOptions): Promise<void> {
+    this.isHost = !hostId;
+
+    return new Promise((resolve, reject) => {
+      this.peer = new Peer(peerId, {
+        debug: 1,
+      });
+
+      this.peer.on("open", (id) => {
+        console.log("Peer opened with ID:", id);
+        if (!hostId) {
+          resolve();
+          return;
+        }
+
+        const conn = this.peer!.connect(hostId, {
+          reliable: true,
+          metadata,
+        });
+
+        conn.on("open", () => {
+          console.log("Connected to host");
+          this.hostConnection = conn;
+          this.setupConnection(conn);
+          resolve();
+        });
+
+        conn.on("error", (err) => {
+          console.error("Connection error:", err);
+          reject(new TransportError("network", err.message));
+        });
+      });
+
+      this.peer.on("connection", (conn) => {
+        console.log("Player connecting:", conn.peer);
+        this.setupConnection(conn);
+      });
+
+      this.peer.on("error", (err) => {
+        console.error("Peer error:", err);
+        if (err.type === "unavailable-id" || err.type === "peer-unavailable") {
+          reject(new TransportError(err.type, err.message));
+        } else {
+          reject(new TransportError("network", err.message));
+        }
+      });
+    });
+  }
+
+  private setupConnection(conn: DataConnection) {
+    conn.on("open", () => {
+      this.connections.set(conn.peer, conn);
+      this.emitConnection(conn.peer, conn.metadata);
+    });
+
+    conn.on("data", (data) => {
+      // The connection, not the message, says who sent it
+      this.emitMessage({ ...(data as GameMessage), senderId: conn.peer });
+    });
+
+    conn.on("close", () => {
+      this.connections.delete(conn.peer);
+      this.emitDisconnection(conn.peer);
+    });
+
+    conn.on("error", (err) => {
+      console.error("Connection error:", err);
+    });
+  }
+
+  send(message: GameMessage) {
+    if (this.isHost) {
+      // Host broadcasts to all players
+      this.connections.forEach((conn) => {
+        if (conn.open) {
+          conn.send(message);
+        }
+      });
+    } else if (this.hostConnection?.open) {
+      // Player sends to host
+      this.hostConnection.send(message);
+    }
+  }
+
+  sendToPlayer(peerId: string, message: GameMessage) {
+    const conn = this.connections.get(peerId);
+    if (conn?.open) {
+      conn.send(message);
+    }
+  }
+
+  getPeerIds(): string[] {
+    return [...this.connections.keys()];
+  }
+
+  disconnectPeer(peerId: string) {
+    // Closing fires the connection's close handler, which reports the disconnection
+    this.connections.get(peerId)?.close();
+  }
+
+  disconnect() {
+    this.connections.forEach((conn) => conn.close());
+    this.connections.clear();
+    this.hostConnection?.close();
+    this.peer?.destroy();
+    this.peer = null;
+  }
+}
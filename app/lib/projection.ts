@@ -0,0 +1,159 @@
+import { isAnswerRevealed } from "./quiz";
+import { getGalleryPlayers, isArtistSecret } from "./replay";
+import { isSameArtist } from "./teams";
+import { GalleryDrawing, GameState, Player } from "./types";
+
+// Drawings and prompts are kept private until everyone sees them in the slideshow
+function isRevealPhase(state: GameState): boolean {
+  return state.phase === "slideshow" || state.phase === "final_vote" || state.phase === "leaderboard";
+}
+
+function projectPlayer(state: GameState, player: Player, viewerId: string): Player {
+  if (player.id === viewerId || isRevealPhase(state)) return player;
+  return {
+    ...player,
+    // Blanked rather than removed so everyone can still see who has submitted
+    sentence: player.sentence === undefined ? undefined : "",
+    guess: player.guess === undefined ? undefined : "",
+    assignedSentence: undefined,
+    assignedDrawing: undefined,
+    // Everyone guesses from the drawings, so those are out before the sentences
+    drawing: state.phase === "sentence_guessing" ? player.drawing : undefined,
+  };
+}
+
+// Nobody but the teacher gets a drawing the teacher has hidden
+function hideDrawing(player: Player): Player {
+  return player.drawingHidden ? { ...player, drawing: undefined } : player;
+}
+
+// Anonymous voting: the gallery drawings whose artist the viewer mustn't know yet
+function getSecretArtists(state: GameState, viewerId: string): Player[] {
+  return getGalleryPlayers(state).filter(
+    (p) => isArtistSecret(state, p.drawingId) && !isSameArtist(state, p.id, viewerId)
+  );
+}
+
+// The secret drawings go out on their own under their drawing ID, with the
+// sentence once it's on screen
+function getAnonymousGallery(state: GameState, secret: Player[]): GalleryDrawing[] {
+  return secret.flatMap((p) =>
+    p.drawing && p.drawingId
+      ? [{
+          id: p.drawingId,
+          drawing: p.drawing,
+          prompt: state.phase === "slideshow" ? p.assignedSentence : undefined,
+        }]
+      : []
+  );
+}
+
+// ...and their artists lose the drawing and anything else that would link
+// them to it, votes included
+function hideArtist(player: Player, secretIds: Set<string>): Player {
+  if (!player.drawingId || !secretIds.has(player.drawingId)) return player;
+  return {
+    ...player,
+    drawing: undefined,
+    drawingId: undefined,
+    assignedSentence: undefined,
+    thumbsUp: 0,
+    thumbsDown: 0,
+  };
+}
+
+// Others' answers only once they can't be copied - after the quiz, or once a
+// classroom question has been revealed
+function projectQuizAnswers(state: GameState, viewerId: string): GameState["quizAnswers"] {
+  if (state.phase !== "quiz") return state.quizAnswers;
+
+  const quizAnswers: GameState["quizAnswers"] = {};
+  for (const [playerId, answers] of Object.entries(state.quizAnswers)) {
+    if (playerId === viewerId) {
+      quizAnswers[playerId] = answers;
+    } else if (state.quizMode === "classroom") {
+      const visible: number[] = [];
+      answers.forEach((answer, index) => {
+        if (isAnswerRevealed(state, index)) visible[index] = answer;
+      });
+      quizAnswers[playerId] = visible;
+    }
+  }
+  return quizAnswers;
+}
+
+// While guessing, players see only their own guesses - and not yet how close
+// they were
+function projectPromptGuesses(state: GameState, viewerId: string): GameState["promptGuesses"] {
+  if (state.phase !== "sentence_guessing") return state.promptGuesses;
+
+  const promptGuesses: GameState["promptGuesses"] = {};
+  for (const [drawingId, guesses] of Object.entries(state.promptGuesses)) {
+    const own = guesses[viewerId];
+    if (own) promptGuesses[drawingId] = { [viewerId]: { ...own, similarity: 0 } };
+  }
+  return promptGuesses;
+}
+
+// Votes with the voters' IDs swapped for placeholders, bar the viewer's own
+function anonymizeVotes<T>(votes: Record<string, T>, viewerId: string): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(votes).map(([voterId, vote], index) => [
+      voterId === viewerId ? voterId : `voter-${index}`,
+      vote,
+    ])
+  );
+}
+
+// Award and ranked-choice ballots stay secret until the vote closes, so
+// nobody just follows the crowd
+function projectFinalVotes(state: GameState, viewerId: string) {
+  const visible = <T>(votes: Record<string, T>): Record<string, T> => {
+    if (state.phase !== "final_vote") return anonymizeVotes(votes, viewerId);
+    return viewerId in votes ? { [viewerId]: votes[viewerId] } : {};
+  };
+  return {
+    categoryVotes: Object.fromEntries(
+      Object.entries(state.categoryVotes).map(([category, votes]) => [category, visible(votes)])
+    ),
+    rankedBallots: visible(state.rankedBallots),
+  };
+}
+
+// What one player is allowed to see of the room. The teacher sees everything;
+// nobody else gets the answer key, the moderation or room settings, other
+// players' work before it's revealed (telephone chains included), hidden
+// drawings, who voted for what, or who drew what while that's a secret.
+export function projectStateFor(state: GameState, viewerId: string): GameState {
+  const viewer = state.players.find((p) => p.id === viewerId);
+  if (viewer?.isHost) return state;
+
+  const ownVotes = (voterIds: string[]) => voterIds.filter((id) => id === viewerId);
+  const reactions: GameState["reactions"] = {};
+  for (const [targetId, r] of Object.entries(state.reactions)) {
+    reactions[targetId] = { thumbsUp: ownVotes(r.thumbsUp), thumbsDown: ownVotes(r.thumbsDown) };
+  }
+
+  const secret = getSecretArtists(state, viewerId);
+  const secretIds = new Set(secret.map((p) => p.drawingId ?? ""));
+
+  return {
+    ...state,
+    answerKey: undefined,
+    moderation: undefined,
+    access: undefined,
+    players: state.players.map((p) => hideArtist(hideDrawing(projectPlayer(state, p, viewerId)), secretIds)),
+    anonymousGallery: secret.length > 0 ? getAnonymousGallery(state, secret) : undefined,
+    chains: isRevealPhase(state) ? state.chains : [],
+    quizAnswers: projectQuizAnswers(state, viewerId),
+    quizAnswerTimes: state.quizAnswerTimes[viewerId]
+      ? { [viewerId]: state.quizAnswerTimes[viewerId] }
+      : {},
+    reactions,
+    ratings: Object.fromEntries(
+      Object.entries(state.ratings).map(([artistId, votes]) => [artistId, anonymizeVotes(votes, viewerId)])
+    ),
+    ...projectFinalVotes(state, viewerId),
+    promptGuesses: projectPromptGuesses(state, viewerId),
+  };
+}
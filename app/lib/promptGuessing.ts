@@ -0,0 +1,127 @@
+"use client";
+
+import { findBlockedWords } from "./moderation";
+import { getGalleryPlayers, orderGallery } from "./replay";
+import { isSameArtist } from "./teams";
+import { GameState } from "./types";
+
+export const GUESS_POINTS = 100; // for a guess that matches the sentence exactly
+export const ARTIST_GUESS_POINTS = 100; // for a drawing everyone guessed exactly
+const MIN_SIMILARITY = 0.2; // anything less is a miss, not a near one
+const WORD_MATCH = 0.75; // how alike two words must be to count as the same
+
+// Words that don't say anything about what was drawn
+const STOP_WORDS = new Set([
+  "a", "an", "the", "of", "on", "in", "at", "to", "with", "and", "is", "are", "its", "it", "his", "her", "their",
+]);
+
+function getWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w && !STOP_WORDS.has(w))
+    // Plurals count as the same word
+    .map((w) => (w.length > 3 && w.endsWith("s") ? w.slice(0, -1) : w));
+}
+
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for the same word, falling to 0 - small typos still count
+function getWordSimilarity(a: string, b: string): number {
+  const similarity = 1 - getEditDistance(a, b) / Math.max(a.length, b.length);
+  return similarity >= WORD_MATCH ? similarity : 0;
+}
+
+// How much of one word list turns up in the other
+function getCoverage(words: string[], others: string[]): number {
+  if (words.length === 0) return 0;
+  const total = words.reduce(
+    (sum, word) => sum + Math.max(0, ...others.map((other) => getWordSimilarity(word, other))),
+    0
+  );
+  return total / words.length;
+}
+
+// 0 to 1: how close a guess is to the sentence, word by word and in any order.
+// Guessing every word of the sentence but padding it out with others scores less.
+export function getGuessSimilarity(guess: string, sentence: string): number {
+  const guessWords = getWords(guess);
+  const sentenceWords = getWords(sentence);
+  const recall = getCoverage(sentenceWords, guessWords);
+  const precision = getCoverage(guessWords, sentenceWords);
+  if (recall + precision === 0) return 0;
+  const similarity = (2 * recall * precision) / (recall + precision);
+  return similarity >= MIN_SIMILARITY ? similarity : 0;
+}
+
+export function startSentenceGuessing(state: GameState, now: number): GameState {
+  return {
+    ...orderGallery(state),
+    phase: "sentence_guessing",
+    promptGuesses: {},
+    endsAt: now + state.settings.guessDuration * 1000,
+  };
+}
+
+// The drawings a player is guessing: everyone else's (other teams', in team
+// mode) that the teacher hasn't hidden
+export function getGuessTargets(state: GameState, playerId: string) {
+  return getGalleryPlayers(state).filter((p) => !isSameArtist(state, p.id, playerId));
+}
+
+export function recordPromptGuess(
+  state: GameState,
+  guesserId: string,
+  drawingId: string,
+  text: string
+): GameState {
+  const guess = text.trim();
+  const artist = getGuessTargets(state, guesserId).find((p) => p.drawingId === drawingId);
+  const guesser = state.players.find((p) => p.id === guesserId);
+  if (state.phase !== "sentence_guessing" || !guess || !artist || !guesser || guesser.isHost) {
+    return state;
+  }
+  // One guess per drawing, unless the last one was turned away
+  const previous = state.promptGuesses[drawingId]?.[guesserId];
+  if (previous && !previous.rejected) return state;
+
+  const rejected = !!state.moderation && findBlockedWords(guess, state.moderation).length > 0;
+  const scored = rejected
+    ? { text: "", similarity: 0, rejected }
+    : { text: guess, similarity: getGuessSimilarity(guess, artist.assignedSentence ?? "") };
+  return {
+    ...state,
+    promptGuesses: {
+      ...state.promptGuesses,
+      [drawingId]: { ...state.promptGuesses[drawingId], [guesserId]: scored },
+    },
+  };
+}
+
+// Points for guessing others' sentences, plus points for drawing something the
+// others could guess
+export function getGuessPoints(state: GameState, playerId: string): number {
+  let points = 0;
+  for (const [drawingId, guesses] of Object.entries(state.promptGuesses)) {
+    const results = Object.entries(guesses);
+    const artist = state.players.find((p) => p.drawingId === drawingId);
+    if (artist && isSameArtist(state, artist.id, playerId) && results.length > 0) {
+      const average = results.reduce((sum, [, g]) => sum + g.similarity, 0) / results.length;
+      points += Math.round(average * ARTIST_GUESS_POINTS);
+    }
+    const own = guesses[playerId];
+    if (own) points += Math.round(own.similarity * GUESS_POINTS);
+  }
+  return points;
+}
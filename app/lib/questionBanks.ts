@@ -0,0 +1,184 @@
+"use client";
+
+import { v4 as uuidv4 } from "uuid";
+import { DEFAULT_QUESTION_BANK, QuestionBank, QuizQuestion } from "./types";
+
+const BANKS_KEY = "drawg-question-banks";
+const SELECTED_BANK_KEY = "drawg-selected-bank";
+
+// Saved banks, with the built-in trivia set always first
+export function loadQuestionBanks(): QuestionBank[] {
+  if (typeof window === "undefined") return [DEFAULT_QUESTION_BANK];
+  try {
+    const raw = window.localStorage.getItem(BANKS_KEY);
+    const saved = raw ? (JSON.parse(raw) as QuestionBank[]) : [];
+    return [DEFAULT_QUESTION_BANK, ...saved.filter((b) => b.id !== DEFAULT_QUESTION_BANK.id)];
+  } catch {
+    return [DEFAULT_QUESTION_BANK];
+  }
+}
+
+export function saveQuestionBanks(banks: QuestionBank[]) {
+  const custom = banks.filter((b) => b.id !== DEFAULT_QUESTION_BANK.id);
+  window.localStorage.setItem(BANKS_KEY, JSON.stringify(custom));
+}
+
+export function loadSelectedBank(): QuestionBank {
+  const banks = loadQuestionBanks();
+  const selectedId = typeof window === "undefined"
+    ? null
+    : window.localStorage.getItem(SELECTED_BANK_KEY);
+  return banks.find((b) => b.id === selectedId) ?? DEFAULT_QUESTION_BANK;
+}
+
+export function saveSelectedBankId(bankId: string) {
+  window.localStorage.setItem(SELECTED_BANK_KEY, bankId);
+}
+
+export function createQuestionBank(name: string, questions: QuizQuestion[] = []): QuestionBank {
+  return { id: uuidv4(), name, questions };
+}
+
+// Returns a problem description, or null if the question is usable
+export function validateQuestion(question: QuizQuestion): string | null {
+  if (!question.question.trim()) return "Question text is empty";
+  if (question.options.length < 2) return "Needs at least 2 options";
+  if (question.options.some((o) => !o.trim())) return "An option is empty";
+  if (question.correctIndex < 0 || question.correctIndex >= question.options.length) {
+    return "Correct answer is not one of the options";
+  }
+  return null;
+}
+
+function renumber(questions: Omit<QuizQuestion, "id">[]): QuizQuestion[] {
+  return questions.map((q, index) => ({ ...q, id: index + 1 }));
+}
+
+function checkQuestions(questions: QuizQuestion[]): QuizQuestion[] {
+  if (questions.length === 0) {
+    throw new Error("No questions found");
+  }
+  questions.forEach((q, index) => {
+    const problem = validateQuestion(q);
+    if (problem) throw new Error(`Question ${index + 1}: ${problem}`);
+  });
+  return questions;
+}
+
+// Accepts either a full exported bank or a bare array of questions
+export function parseQuestionBankJson(text: string, fallbackName: string): QuestionBank {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  // null and bare strings or numbers are valid JSON too, but not a bank
+  const bank = typeof data === "object" && data !== null && !Array.isArray(data)
+    ? (data as { name?: unknown; questions?: unknown })
+    : null;
+  const raw = Array.isArray(data) ? data : bank?.questions;
+  if (!Array.isArray(raw)) {
+    throw new Error("Expected a list of questions");
+  }
+  const name = typeof bank?.name === "string" ? bank.name : fallbackName;
+
+  const questions = renumber(
+    raw.map((q) => ({
+      question: String(q?.question ?? ""),
+      options: Array.isArray(q?.options) ? q.options.map(String) : [],
+      correctIndex: Number(q?.correctIndex),
+    }))
+  );
+  return createQuestionBank(name, checkQuestions(questions));
+}
+
+export function exportQuestionBankJson(bank: QuestionBank): string {
+  return JSON.stringify({ name: bank.name, questions: bank.questions }, null, 2);
+}
+
+// Splits CSV text into rows of fields, honouring quotes and escaped quotes
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One question per row: question, option 1..n, correct answer (1-based number
+// or the option's text). A header row starting with "question" is skipped.
+export function parseQuestionBankCsv(text: string, name: string): QuestionBank {
+  const rows = parseCsvRows(text);
+  if (rows[0]?.[0]?.trim().toLowerCase() === "question") {
+    rows.shift();
+  }
+
+  const questions = renumber(
+    rows.map((fields, index) => {
+      const cells = fields.map((f) => f.trim());
+      if (cells.length < 4) {
+        throw new Error(`Row ${index + 1}: expected a question, at least 2 options and the answer`);
+      }
+      const options = cells.slice(1, -1).filter((o) => o);
+      const answer = cells[cells.length - 1];
+      const byNumber = Number(answer) - 1;
+      const correctIndex = Number.isInteger(byNumber) && byNumber >= 0 && byNumber < options.length
+        ? byNumber
+        : options.findIndex((o) => o.toLowerCase() === answer.toLowerCase());
+      return { question: cells[0], options, correctIndex };
+    })
+  );
+  return createQuestionBank(name, checkQuestions(questions));
+}
+
+export function exportQuestionBankCsv(bank: QuestionBank): string {
+  const maxOptions = Math.max(...bank.questions.map((q) => q.options.length), 2);
+  const header = [
+    "question",
+    ...Array.from({ length: maxOptions }, (_, i) => `option ${i + 1}`),
+    "correct",
+  ];
+  const rows = bank.questions.map((q) => [
+    q.question,
+    ...Array.from({ length: maxOptions }, (_, i) => q.options[i] ?? ""),
+    String(q.correctIndex + 1),
+  ]);
+  return [header, ...rows].map((r) => r.map(escapeCsvField).join(",")).join("\n");
+}
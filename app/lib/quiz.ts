@@ -0,0 +1,44 @@
+import { GameState, QuizQuestion, toPublicQuestion } from "./types";
+
+// Split a question bank into what players see and the key the host keeps
+export function splitAnswerKey(questions: QuizQuestion[]): Pick<GameState, "quizQuestions" | "answerKey"> {
+  return {
+    quizQuestions: questions.map(toPublicQuestion),
+    answerKey: questions.map((q) => q.correctIndex),
+  };
+}
+
+// Answers are final - otherwise a player could read the key off the result and
+// answer again. Classroom mode only takes answers for the current question
+// until it's revealed.
+export function isAnswerOpen(state: GameState, playerId: string, questionIndex: number): boolean {
+  if (state.phase !== "quiz") return false;
+  // Unanswered slots come back as null once the state has been through JSON
+  const previous = state.quizAnswers[playerId]?.[questionIndex];
+  if (previous !== undefined && previous !== null) return false;
+  if (state.quizMode !== "classroom") return true;
+  return questionIndex === state.currentQuestionIndex && !state.questionRevealed;
+}
+
+// Whether players may learn a question's answer: as soon as they answer when
+// self-paced, once the host reveals it in classroom mode
+export function isAnswerRevealed(state: GameState, questionIndex: number): boolean {
+  if (state.phase !== "quiz" || state.quizMode !== "classroom") return true;
+  return (
+    questionIndex < state.currentQuestionIndex ||
+    (questionIndex === state.currentQuestionIndex && state.questionRevealed)
+  );
+}
+
+// How many players picked each option of a question
+export function getAnswerDistribution(state: GameState, questionIndex: number): number[] {
+  const question = state.quizQuestions[questionIndex];
+  const counts = new Array(question?.options.length ?? 0).fill(0);
+  Object.values(state.quizAnswers).forEach((answers) => {
+    const answer = answers[questionIndex];
+    if (answer !== undefined && answer !== null && answer < counts.length) {
+      counts[answer]++;
+    }
+  });
+  return counts;
+}
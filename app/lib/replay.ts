@@ -0,0 +1,267 @@
+"use client";
+
+import { CanvasAction } from "./drawing";
+import { getGalleryOrder } from "./settings";
+import { getArtistName, getRepresentative, isTeamRepresentative } from "./teams";
+import { Drawing, GalleryDrawing, GalleryOrder, GameState, Player, SlideAdvance, SlideReplay } from "./types";
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Everyone who drew something, hidden or not - one per team in team mode
+function getArtists(state: GameState): Player[] {
+  return state.players.filter((p) => !p.isHost && p.drawing && isTeamRepresentative(state, p));
+}
+
+// The drawings shown in the slideshow and leaderboard, in order
+export function getGalleryPlayers(state: GameState): Player[] {
+  const position = (p: Player) => state.slideOrder.indexOf(p.drawingId ?? "");
+  return getArtists(state)
+    .filter((p) => !p.drawingHidden)
+    .sort((a, b) => position(a) - position(b));
+}
+
+function createDrawingId(): string {
+  return `drawing-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Who wrote the sentence the drawing was made from
+function getPromptAuthor(state: GameState, artist: Player): Player | undefined {
+  return state.players.find((p) => !!p.sentence && p.sentence === artist.assignedSentence);
+}
+
+function sortGallery<T extends Player>(state: GameState, artists: T[], order: GalleryOrder): T[] {
+  const byName = (getName: (p: Player) => string) =>
+    [...artists].sort((a, b) => getName(a).localeCompare(getName(b)));
+  switch (order) {
+    case "random":
+      return shuffle(artists);
+    case "author":
+      return byName((p) => getPromptAuthor(state, p)?.name ?? "");
+    case "artist":
+      return byName((p) => getArtistName(state, p));
+    default:
+      return artists;
+  }
+}
+
+// Gives each drawing an ID that votes and guesses are kept under, and puts the
+// gallery in the teacher's chosen order - shuffled for anonymous voting if
+// that order would give away whose drawing is whose
+export function orderGallery(state: GameState): GameState {
+  const artists = getArtists(state).map((p) => ({ ...p, drawingId: p.drawingId ?? createDrawingId() }));
+  const ordered = sortGallery(state, artists, getGalleryOrder(state.settings));
+  return {
+    ...state,
+    slideOrder: ordered.map((p) => p.drawingId),
+    // Teammates share their team's ID
+    players: state.players.map((p) => {
+      const artist = artists.find((a) => a.id === getRepresentative(state, p).id);
+      return p.drawing && artist ? { ...p, drawingId: artist.drawingId } : p;
+    }),
+  };
+}
+
+// Re-sorts the gallery mid-show, staying on the drawing that's up
+export function reorderGallery(state: GameState, galleryOrder: GalleryOrder): GameState {
+  const showing = getGalleryPlayers(state)[state.currentSlideIndex]?.drawingId;
+  const reordered = orderGallery({ ...state, settings: { ...state.settings, galleryOrder } });
+  const index = getGalleryPlayers(reordered).findIndex((p) => p.drawingId === showing);
+  return { ...reordered, currentSlideIndex: Math.max(0, index) };
+}
+
+// Whether the votes on a drawing are in and its anonymous artist shown
+export function isArtistRevealed(state: GameState, drawingId: string | undefined): boolean {
+  return !!drawingId && state.revealedDrawings.includes(drawingId);
+}
+
+// Anonymous voting keeps an artist a secret until the votes on their drawing
+// are in: all through sentence guessing, then slide by slide
+export function isArtistSecret(state: GameState, drawingId: string | undefined): boolean {
+  if (!state.settings.anonymousVoting || !drawingId) return false;
+  if (state.phase === "sentence_guessing") return true;
+  return state.phase === "slideshow" && !isArtistRevealed(state, drawingId);
+}
+
+// The gallery as this player sees it, in order - any drawing whose artist is
+// still a secret to them comes without one
+export function getGalleryDrawings(state: GameState): GalleryDrawing[] {
+  const players = getGalleryPlayers(state);
+  return state.slideOrder.flatMap((id) => {
+    const secret = state.anonymousGallery?.find((d) => d.id === id);
+    if (secret) return [secret];
+    const artist = players.find((p) => p.drawingId === id);
+    return artist?.drawing
+      ? [{ id, drawing: artist.drawing, prompt: artist.assignedSentence, artist }]
+      : [];
+  });
+}
+
+// How long the drawing took to make, in recorded ms
+export function getDrawingLength(drawing: Drawing): number {
+  let length = 0;
+  for (const action of drawing.actions) {
+    let end = action.t;
+    if (action.type === 'stroke') {
+      for (let i = 3; i < action.points.length; i += 4) {
+        end += action.points[i];
+      }
+    }
+    length = Math.max(length, end);
+  }
+  return length;
+}
+
+// Recorded ms played per ms at 1x: long drawings are squeezed into
+// replayDuration seconds, short ones play in real time
+function getReplayRate(length: number, replayDuration: number): number {
+  return Math.max(1, length / (replayDuration * 1000));
+}
+
+export function startReplay(
+  now: number,
+  length: number,
+  replayDuration: number,
+  speed = 1
+): SlideReplay {
+  return { startedAt: now, position: 0, speed, rate: getReplayRate(length, replayDuration) };
+}
+
+// How far into the drawing the replay is at the given host time
+export function getReplayPosition(replay: SlideReplay, length: number, hostNow: number): number {
+  const elapsed = replay.paused ? 0 : Math.max(0, hostNow - replay.startedAt);
+  return Math.min(length, replay.position + elapsed * replay.speed * replay.rate);
+}
+
+// Carries on from the current position at the new speed
+export function changeReplaySpeed(
+  replay: SlideReplay,
+  length: number,
+  now: number,
+  speed: number
+): SlideReplay {
+  return { ...replay, startedAt: now, position: getReplayPosition(replay, length, now), speed };
+}
+
+// Holds the replay where it is, or carries on from there
+export function pauseReplay(
+  replay: SlideReplay,
+  length: number,
+  now: number,
+  paused: boolean
+): SlideReplay {
+  return { ...replay, startedAt: now, position: getReplayPosition(replay, length, now), paused };
+}
+
+// The slide stays up for the rest of the replay plus time to vote on the result
+export function getSlideEndsAt(replay: SlideReplay, length: number, slideDuration: number): number {
+  const remaining = (length - replay.position) / (replay.speed * replay.rate);
+  return replay.startedAt + remaining + slideDuration * 1000;
+}
+
+// After the last drawing come the award and ranked-choice votes, if the
+// teacher turned them on and there's a choice to make, then the leaderboard
+function endSlideshow(state: GameState, now: number): GameState {
+  const { categoryVoting, rankedVoting, finalVoteDuration } = state.settings;
+  if ((categoryVoting || rankedVoting) && getGalleryPlayers(state).length > 1) {
+    return {
+      ...state,
+      phase: "final_vote",
+      replay: null,
+      categoryVotes: {},
+      rankedBallots: {},
+      endsAt: now + finalVoteDuration * 1000,
+    };
+  }
+  return { ...state, phase: "leaderboard", replay: null, endsAt: null };
+}
+
+function getCurrentLength(state: GameState): number {
+  const drawing = getGalleryPlayers(state)[state.currentSlideIndex]?.drawing;
+  return drawing ? getDrawingLength(drawing) : 0;
+}
+
+// Puts the replay on the current slide and sets when the slide moves on by
+// itself: after the replay and then the vote, or the artist reveal. Paused or
+// manual slides wait for the teacher.
+function setSlideReplay(state: GameState, replay: SlideReplay): GameState {
+  const { slideAdvance, slideDuration, revealDuration } = state.settings;
+  if (replay.paused || slideAdvance === "manual") return { ...state, replay, endsAt: null };
+  const current = getGalleryPlayers(state)[state.currentSlideIndex];
+  const wait = isArtistRevealed(state, current?.drawingId) ? revealDuration : slideDuration;
+  return { ...state, replay, endsAt: getSlideEndsAt(replay, getCurrentLength(state), wait) };
+}
+
+// The same replay restarted from now, so the slide's countdown starts over
+function restartTimer(state: GameState, now: number): SlideReplay | null {
+  return state.replay && changeReplaySpeed(state.replay, getCurrentLength(state), now, state.replay.speed);
+}
+
+// Shows the gallery's drawing at index, or moves on after the last one
+export function goToSlide(state: GameState, index: number, now: number): GameState {
+  const drawing = getGalleryPlayers(state)[index]?.drawing;
+  if (!drawing) return endSlideshow(state, now);
+  // Keep whatever speed the host picked for the previous drawing
+  const length = getDrawingLength(drawing);
+  const replay = startReplay(now, length, state.settings.replayDuration, state.replay?.speed);
+  return setSlideReplay({ ...state, currentSlideIndex: index }, replay);
+}
+
+export function setSlideSpeed(state: GameState, speed: number, now: number): GameState {
+  if (!state.replay) return state;
+  return setSlideReplay(state, changeReplaySpeed(state.replay, getCurrentLength(state), now, speed));
+}
+
+export function setSlidePaused(state: GameState, paused: boolean, now: number): GameState {
+  if (!state.replay) return state;
+  return setSlideReplay(state, pauseReplay(state.replay, getCurrentLength(state), now, paused));
+}
+
+export function setSlideAdvance(state: GameState, slideAdvance: SlideAdvance, now: number): GameState {
+  const updated = { ...state, settings: { ...state.settings, slideAdvance } };
+  const replay = restartTimer(state, now);
+  return replay ? setSlideReplay(updated, replay) : updated;
+}
+
+// Closes the vote on the current drawing and shows who drew it, for
+// revealDuration seconds when the slideshow is timed
+export function revealArtist(state: GameState, now: number): GameState {
+  const current = getGalleryPlayers(state)[state.currentSlideIndex];
+  const replay = restartTimer(state, now);
+  if (!current?.drawingId || !replay) return state;
+  return setSlideReplay(
+    { ...state, revealedDrawings: [...state.revealedDrawings, current.drawingId] },
+    replay
+  );
+}
+
+function getStartTime(action: CanvasAction): number {
+  return action.points?.[0]?.t ?? action.t ?? 0;
+}
+
+// Splits the drawing at a replay position: how many actions are finished, and
+// the part of the stroke still being drawn, if any
+export function getReplayFrame(
+  actions: CanvasAction[],
+  position: number
+): { done: number; partial: CanvasAction | null } {
+  let done = 0;
+  while (done < actions.length && getStartTime(actions[done]) <= position) {
+    const action = actions[done];
+    const points = action.points ?? [];
+    const drawn = points.filter((p) => (p.t ?? 0) <= position);
+    if (drawn.length < points.length) {
+      return { done, partial: { ...action, points: drawn } };
+    }
+    done++;
+  }
+  return { done, partial: null };
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { findBlockedWords } from "./moderation";
+import { DEFAULT_ROOM_ACCESS, GameState, RoomAccess } from "./types";
+
+export const REMOVAL_DELAY = 1000; // ms a removed player gets to read why before the link is cut
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+export function isBanned(access: RoomAccess, playerName: string, sessionKey?: string): boolean {
+  const name = normalizeName(playerName);
+  return access.banned.some(
+    (b) => normalizeName(b.name) === name || (!!sessionKey && b.tokens.includes(sessionKey))
+  );
+}
+
+// Why a new player can't have a seat, or null if they can
+export function getJoinRejection(
+  state: GameState,
+  playerName: string,
+  sessionKey?: string
+): string | null {
+  const access = state.access ?? DEFAULT_ROOM_ACCESS;
+  const name = normalizeName(playerName);
+
+  if (isBanned(access, playerName, sessionKey)) {
+    return "You can't join this room.";
+  }
+  if (access.locked || access.passwordWithheld) {
+    return "This room is locked. Ask the teacher to let you in.";
+  }
+  if (state.players.filter((p) => !p.isHost).length >= access.maxPlayers) {
+    return "This room is full.";
+  }
+  if (!name) {
+    return "Please enter a name.";
+  }
+  if (state.moderation && findBlockedWords(playerName, state.moderation).length > 0) {
+    return "That name isn't allowed here. Please pick another one.";
+  }
+  if (state.players.some((p) => normalizeName(p.name) === name)) {
+    return `Someone here is already called ${playerName.trim()}. Please pick another name.`;
+  }
+  return null;
+}
+
+export function banPlayer(access: RoomAccess, name: string, sessionKeys: string[]): RoomAccess {
+  return { ...access, banned: [...access.banned, { name, tokens: sessionKeys }] };
+}
+
+export function unbanPlayer(access: RoomAccess, index: number): RoomAccess {
+  return { ...access, banned: access.banned.filter((_, i) => i !== index) };
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { getGuessPoints } from "./promptGuessing";
+import { getRepresentative, getTeamMembers } from "./teams";
+import { GameState, Player, RoundPlayerResult, RoundResult } from "./types";
+import { AWARD_POINTS, getAwardCount, getRating, STAR_POINTS } from "./voting";
+
+export const VOTE_POINTS = 50; // standings points for each thumbs up - thumbs down cost nothing
+
+export interface Standing {
+  playerId: string;
+  name: string;
+  quizScore: number;
+  thumbsUp: number;
+  thumbsDown: number;
+  votePoints: number;
+  guessPoints: number;
+  total: number;
+  roundTotals: (number | null)[]; // one per round played, null where they weren't in it
+}
+
+export function getRoundPoints(result: RoundPlayerResult): number {
+  return result.quizScore + result.votePoints + result.guessPoints;
+}
+
+// Points for what the class thought of a player's drawing (their team's, in
+// team mode): thumbs up or stars, plus any awards it won
+export function getVotePoints(state: GameState, player: Player): number {
+  const artist = getRepresentative(state, player);
+  const votes = state.settings.voting === "stars"
+    ? getRating(state, artist.drawingId).total * STAR_POINTS
+    : artist.thumbsUp * VOTE_POINTS;
+  return votes + getAwardCount(state, artist.id) * AWARD_POINTS;
+}
+
+// The current round's results as they stand. Teammates share their team
+// drawing's votes.
+export function getRoundResult(state: GameState): RoundResult {
+  return {
+    round: state.round,
+    players: state.players
+      .filter((p) => !p.isHost)
+      .map((p) => ({
+        playerId: p.id,
+        name: p.name,
+        quizScore: p.quizScore,
+        thumbsUp: getRepresentative(state, p).thumbsUp,
+        thumbsDown: getRepresentative(state, p).thumbsDown,
+        votePoints: getVotePoints(state, p),
+        guessPoints: getGuessPoints(state, p.id),
+        prompt: p.assignedSentence,
+      })),
+  };
+}
+
+// Finished rounds, plus the one being shown on the leaderboard
+export function getPlayedRounds(state: GameState): RoundResult[] {
+  return state.phase === "leaderboard"
+    ? [...state.roundHistory, getRoundResult(state)]
+    : state.roundHistory;
+}
+
+// Everyone still in the room, best first, with their points from every round
+export function getStandings(state: GameState): Standing[] {
+  const rounds = getPlayedRounds(state);
+  return state.players
+    .filter((p) => !p.isHost)
+    .map((player) => {
+      const results = rounds.map((r) => r.players.find((p) => p.playerId === player.id));
+      const played = results.filter((r): r is RoundPlayerResult => !!r);
+      return {
+        playerId: player.id,
+        name: player.name,
+        quizScore: played.reduce((sum, r) => sum + r.quizScore, 0),
+        thumbsUp: played.reduce((sum, r) => sum + r.thumbsUp, 0),
+        thumbsDown: played.reduce((sum, r) => sum + r.thumbsDown, 0),
+        votePoints: played.reduce((sum, r) => sum + r.votePoints, 0),
+        guessPoints: played.reduce((sum, r) => sum + r.guessPoints, 0),
+        total: played.reduce((sum, r) => sum + getRoundPoints(r), 0),
+        roundTotals: results.map((r) => (r ? getRoundPoints(r) : null)),
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+}
+
+export interface TeamStanding {
+  teamId: string;
+  name: string;
+  color: string;
+  members: string[];
+  total: number; // the members' average, so team sizes don't matter
+}
+
+// Teams best first, by their members' points from every round
+export function getTeamStandings(state: GameState): TeamStanding[] {
+  const standings = getStandings(state);
+  return state.teams
+    .map((team) => {
+      const members = getTeamMembers(state, team);
+      const totals = members.map((m) => standings.find((s) => s.playerId === m.id)?.total ?? 0);
+      return {
+        teamId: team.id,
+        name: team.name,
+        color: team.color,
+        members: members.map((m) => m.name),
+        total: totals.length > 0
+          ? Math.round(totals.reduce((sum, total) => sum + total, 0) / totals.length)
+          : 0,
+      };
+    })
+    .filter((standing) => standing.members.length > 0)
+    .sort((a, b) => b.total - a.total);
+}
+
+export function isFinalRound(state: GameState): boolean {
+  return state.round >= state.settings.rounds;
+}
+
+// Clears everything from the round just played; players keep their seats
+export function clearRound(state: GameState): GameState {
+  return {
+    ...state,
+    currentQuestionIndex: 0,
+    questionRevealed: false,
+    quizAnswers: {},
+    quizAnswerTimes: {},
+    questionStartTimes: [],
+    endsAt: null,
+    currentSlideIndex: 0,
+    replay: null,
+    pausedAtLink: null,
+    slideOrder: [],
+    revealedDrawings: [],
+    reactions: {},
+    ratings: {},
+    categoryVotes: {},
+    rankedBallots: {},
+    promptGuesses: {},
+    chains: [],
+    chainStep: 0,
+    players: state.players.map((p) => ({
+      ...p,
+      sentence: undefined,
+      sentenceStatus: undefined,
+      quizScore: 0,
+      quizCorrect: 0,
+      drawing: undefined,
+      drawingId: undefined,
+      drawingHidden: undefined,
+      assignedSentence: undefined,
+      assignedDrawing: undefined,
+      guess: undefined,
+      guessRejected: undefined,
+      thumbsUp: 0,
+      thumbsDown: 0,
+    })),
+  };
+}
+
+// Files the round away and starts the next one from new sentences
+export function startNextRound(state: GameState): GameState {
+  return {
+    ...clearRound(state),
+    phase: "sentence_submission",
+    round: state.round + 1,
+    roundHistory: [...state.roundHistory, getRoundResult(state)],
+  };
+}
+
+export function finishGame(state: GameState): GameState {
+  return {
+    ...state,
+    phase: "game_over",
+    roundHistory: [...state.roundHistory, getRoundResult(state)],
+  };
+}
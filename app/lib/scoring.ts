@@ -0,0 +1,205 @@
+import { isAnswerRevealed } from "./quiz";
+import {
+  DEFAULT_SCORING_MODEL,
+  GameState,
+  QuizAnswerResult,
+  QuizMode,
+  ScoringModel,
+} from "./types";
+
+export interface ScoringPreset {
+  id: string;
+  label: string;
+  hint: string;
+  model: ScoringModel;
+}
+
+export const SCORING_PRESETS: ScoringPreset[] = [
+  {
+    id: "accuracy",
+    label: "🎯 Accuracy",
+    hint: "Every correct answer is worth the same, however long it takes.",
+    model: { ...DEFAULT_SCORING_MODEL, maxSpeedBonus: 0, streakBonus: 0 },
+  },
+  {
+    id: "standard",
+    label: "⚖️ Standard",
+    hint: "Bonus points for quick answers and for getting several right in a row.",
+    model: DEFAULT_SCORING_MODEL,
+  },
+  {
+    id: "speed",
+    label: "⚡ Speed run",
+    hint: "Fast answers and long streaks earn a lot more - quick thinkers get the best tools.",
+    model: { ...DEFAULT_SCORING_MODEL, maxSpeedBonus: 100, speedWindow: 10, streakBonus: 40, maxStreakBonus: 200 },
+  },
+];
+
+export function findScoringPreset(model: ScoringModel): ScoringPreset | undefined {
+  return SCORING_PRESETS.find((preset) =>
+    (Object.keys(model) as (keyof ScoringModel)[]).every((key) => preset.model[key] === model[key])
+  );
+}
+
+export interface QuizResult {
+  points: number;
+  correct: number;
+  breakdown: number[]; // points earned on each question
+}
+
+// How long a player took on each question, in ms. Classroom questions are timed
+// from when they opened; self-paced ones from the player's previous answer.
+function getAnswerDurations(
+  timestamps: number[],
+  questionStartTimes: number[],
+  quizMode: QuizMode
+): (number | undefined)[] {
+  if (quizMode === "classroom") {
+    return timestamps.map((t, i) =>
+      t && questionStartTimes[i] ? t - questionStartTimes[i] : undefined
+    );
+  }
+
+  let previous = questionStartTimes[0] ?? 0;
+  const order = timestamps
+    .map((t, i) => ({ t, i }))
+    .filter(({ t }) => t)
+    .sort((a, b) => a.t - b.t);
+  const durations: (number | undefined)[] = [];
+  for (const { t, i } of order) {
+    durations[i] = previous ? t - previous : undefined;
+    previous = t;
+  }
+  return durations;
+}
+
+export function scoreQuiz(
+  answers: (number | null)[],
+  timestamps: number[],
+  answerKey: number[],
+  questionStartTimes: number[],
+  quizMode: QuizMode,
+  model: ScoringModel
+): QuizResult {
+  const durations = getAnswerDurations(timestamps, questionStartTimes, quizMode);
+  const breakdown: number[] = [];
+  let correct = 0;
+  let streak = 0;
+
+  // Streaks follow question order, so a miss or a skipped question breaks them
+  answerKey.forEach((correctIndex, index) => {
+    breakdown[index] = 0;
+    if (answers[index] !== correctIndex) {
+      streak = 0;
+      return;
+    }
+
+    correct++;
+    streak++;
+    breakdown[index] += model.pointsPerCorrect;
+
+    const duration = durations[index];
+    if (duration !== undefined) {
+      const remaining = Math.max(0, 1 - duration / (model.speedWindow * 1000));
+      breakdown[index] += Math.round(model.maxSpeedBonus * remaining);
+    }
+    breakdown[index] += Math.min((streak - 1) * model.streakBonus, model.maxStreakBonus);
+  });
+
+  const points = breakdown.reduce((sum, p) => sum + p, 0);
+  return { points, correct, breakdown };
+}
+
+// Only answers players are allowed to know about count towards the score, so a
+// classroom score can't give away an answer before the reveal
+function scorePlayer(state: GameState, playerId: string): QuizResult {
+  const answerKey = (state.answerKey ?? []).filter((_, i) => isAnswerRevealed(state, i));
+  return scoreQuiz(
+    state.quizAnswers[playerId] || [],
+    state.quizAnswerTimes[playerId] || [],
+    answerKey,
+    state.questionStartTimes,
+    state.quizMode,
+    state.scoringModel
+  );
+}
+
+// A backup running the room has no answer key, so scores wait for the teacher
+export function scorePlayers(state: GameState): GameState {
+  if (!state.answerKey) return state;
+  return {
+    ...state,
+    players: state.players.map((p) => {
+      if (p.isHost) return p;
+      const { points, correct } = scorePlayer(state, p.id);
+      return { ...p, quizScore: points, quizCorrect: correct };
+    }),
+  };
+}
+
+// Store an answer with the time the host received it and rescore the player.
+// Both indexes come off the network, so anything that isn't a real question
+// and option is dropped.
+export function recordQuizAnswer(
+  state: GameState,
+  playerId: string,
+  questionIndex: number,
+  answerIndex: number,
+  receivedAt: number
+): GameState {
+  const question = Number.isInteger(questionIndex) ? state.quizQuestions[questionIndex] : undefined;
+  if (
+    !question ||
+    questionIndex < 0 ||
+    !Number.isInteger(answerIndex) ||
+    answerIndex < 0 ||
+    answerIndex >= question.options.length
+  ) {
+    return state;
+  }
+
+  const answers = [...(state.quizAnswers[playerId] || [])];
+  const timestamps = [...(state.quizAnswerTimes[playerId] || [])];
+  answers[questionIndex] = answerIndex;
+  timestamps[questionIndex] = receivedAt;
+
+  const newState: GameState = {
+    ...state,
+    quizAnswers: { ...state.quizAnswers, [playerId]: answers },
+    quizAnswerTimes: { ...state.quizAnswerTimes, [playerId]: timestamps },
+  };
+  if (!newState.answerKey) return newState;
+  const { points, correct } = scorePlayer(newState, playerId);
+  return {
+    ...newState,
+    players: newState.players.map((p) =>
+      p.id === playerId ? { ...p, quizScore: points, quizCorrect: correct } : p
+    ),
+  };
+}
+
+// What the host tells a player about their answer to one question
+export function getAnswerResult(
+  state: GameState,
+  playerId: string,
+  questionIndex: number
+): QuizAnswerResult {
+  const answerIndex = state.quizAnswers[playerId]?.[questionIndex] ?? null;
+  const correctIndex = state.answerKey?.[questionIndex];
+  if (correctIndex === undefined || !isAnswerRevealed(state, questionIndex)) {
+    return { questionIndex, answerIndex };
+  }
+  const { breakdown } = scorePlayer(state, playerId);
+  return { questionIndex, answerIndex, correctIndex, points: breakdown[questionIndex] };
+}
+
+// Consecutive correct answers leading up to (and including) the given question
+export function getStreak(results: Record<number, QuizAnswerResult>, upToIndex: number): number {
+  let streak = 0;
+  for (let i = upToIndex; i >= 0; i--) {
+    const result = results[i];
+    if (result?.correctIndex === undefined || result.answerIndex !== result.correctIndex) break;
+    streak++;
+  }
+  return streak;
+}
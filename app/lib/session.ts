@@ -0,0 +1,133 @@
+"use client";
+
+import { v4 as uuidv4, v5 as uuidv5 } from "uuid";
+import { TransportKind } from "./transport";
+import { GameState } from "./types";
+
+const SESSION_KEY = "drawg-session";
+const DRAFT_KEY_PREFIX = "drawg-draft-";
+const SESSION_KEY_NAMESPACE = "6f1c1f4e-3b0a-4d55-9a43-2b9e8c7d5a10";
+
+// Identity kept across page reloads so the host can recognize a returning player
+export interface PlayerSession {
+  roomCode: string;
+  playerName: string;
+  token: string;
+  transport: TransportKind;
+  password?: string; // for rooms that have one, so a reload can get back in
+}
+
+export function loadSession(): PlayerSession | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = window.localStorage.getItem(SESSION_KEY);
+    return raw ? (JSON.parse(raw) as PlayerSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: PlayerSession) {
+  window.localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+export function clearSession() {
+  window.localStorage.removeItem(SESSION_KEY);
+}
+
+// What the host files a session under instead of its token: a one-way key, so
+// its records can go to a backup without letting anyone take another's seat
+export function getSessionKey(token: string): string {
+  return uuidv5(token, SESSION_KEY_NAMESPACE);
+}
+
+// Reuse the stored token when rejoining the same room, otherwise start a new identity
+export function getOrCreateSession(
+  roomCode: string,
+  playerName: string,
+  transport: TransportKind,
+  password?: string
+): PlayerSession {
+  const existing = loadSession();
+  if (existing && existing.roomCode === roomCode) {
+    return { ...existing, playerName, transport, password };
+  }
+  return { roomCode, playerName, token: uuidv4(), transport, password };
+}
+
+// In-progress canvas, so a dropped player doesn't lose their drawing
+export function saveDrawingDraft<T>(roomCode: string, actions: T[]) {
+  try {
+    window.localStorage.setItem(DRAFT_KEY_PREFIX + roomCode, JSON.stringify(actions));
+  } catch {
+    // Storage full or unavailable - the draft is best effort
+  }
+}
+
+export function loadDrawingDraft<T>(roomCode: string): T[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(DRAFT_KEY_PREFIX + roomCode);
+    return raw ? (JSON.parse(raw) as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function clearDrawingDraft(roomCode: string) {
+  window.localStorage.removeItem(DRAFT_KEY_PREFIX + roomCode);
+}
+
+// Move everything keyed by a player's old peer ID over to their new one
+export function reassignPlayerId(state: GameState, oldId: string, newId: string): GameState {
+  const swap = (id: string) => (id === oldId ? newId : id);
+
+  const moveKey = <T>(record: Record<string, T>): Record<string, T> => {
+    if (!(oldId in record)) return record;
+    const { [oldId]: value, ...rest } = record;
+    return { ...rest, [newId]: value };
+  };
+
+  const reactions: GameState["reactions"] = {};
+  for (const [drawingId, r] of Object.entries(state.reactions)) {
+    reactions[drawingId] = {
+      thumbsUp: r.thumbsUp.map(swap),
+      thumbsDown: r.thumbsDown.map(swap),
+    };
+  }
+
+  return {
+    ...state,
+    quizAnswers: moveKey(state.quizAnswers),
+    quizAnswerTimes: moveKey(state.quizAnswerTimes),
+    reactions,
+    ratings: Object.fromEntries(
+      Object.entries(state.ratings).map(([drawingId, votes]) => [drawingId, moveKey(votes)])
+    ),
+    categoryVotes: Object.fromEntries(
+      Object.entries(state.categoryVotes).map(([category, votes]) => [
+        category,
+        Object.fromEntries(Object.entries(moveKey(votes)).map(([voterId, artistId]) => [voterId, swap(artistId)])),
+      ])
+    ),
+    rankedBallots: Object.fromEntries(
+      Object.entries(moveKey(state.rankedBallots)).map(([voterId, ballot]) => [voterId, ballot.map(swap)])
+    ),
+    promptGuesses: Object.fromEntries(
+      Object.entries(state.promptGuesses).map(([drawingId, guesses]) => [drawingId, moveKey(guesses)])
+    ),
+    teams: state.teams.map((team) => ({ ...team, playerIds: team.playerIds.map(swap) })),
+    chains: state.chains.map((chain) => ({
+      ...chain,
+      id: swap(chain.id),
+      steps: chain.steps.map((step) => ({ ...step, playerId: swap(step.playerId) })),
+    })),
+    roundHistory: state.roundHistory.map((result) => ({
+      ...result,
+      players: result.players.map((p) => ({ ...p, playerId: swap(p.playerId) })),
+    })),
+    players: state.players.map((p) =>
+      p.id === oldId ? { ...p, id: newId, disconnectedAt: undefined } : p
+    ),
+  };
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { DEFAULT_GAME_SETTINGS, GalleryOrder, GameSettings, SlideAdvance, VotingScheme } from "./types";
+
+const SETTINGS_KEY = "drawg-settings";
+
+export type NumericSetting = {
+  [K in keyof GameSettings]: GameSettings[K] extends number ? K : never;
+}[keyof GameSettings];
+
+// Allowed range for each numeric setting
+export const SETTING_LIMITS: Record<NumericSetting, { min: number; max: number }> = {
+  quizDuration: { min: 30, max: 600 },
+  questionDuration: { min: 5, max: 120 },
+  revealDuration: { min: 2, max: 30 },
+  drawingDuration: { min: 30, max: 600 },
+  guessDuration: { min: 15, max: 180 },
+  chainSteps: { min: 2, max: 9 },
+  slideDuration: { min: 2, max: 60 },
+  replayDuration: { min: 3, max: 60 },
+  minPlayers: { min: 2, max: 10 },
+  canvasWidth: { min: 300, max: 1200 },
+  canvasHeight: { min: 200, max: 900 },
+  unlockScale: { min: 0, max: 3 },
+  rounds: { min: 1, max: 10 },
+  finalVoteDuration: { min: 15, max: 300 },
+};
+
+export const VOTING_SCHEMES: { scheme: VotingScheme; label: string }[] = [
+  { scheme: "thumbs", label: "👍 Thumbs up or down" },
+  { scheme: "stars", label: "⭐ 1 to 5 stars" },
+];
+
+// Join order and by artist would give away anonymous artists, so those
+// galleries are shuffled instead
+export const GALLERY_ORDERS: { order: GalleryOrder; label: string; anonymous: boolean }[] = [
+  { order: "joined", label: "🚪 Join order", anonymous: false },
+  { order: "random", label: "🔀 Random", anonymous: true },
+  { order: "author", label: "✍️ By prompt author", anonymous: true },
+  { order: "artist", label: "🎨 By artist", anonymous: false },
+];
+
+// The order the gallery is actually shown in
+export function getGalleryOrder(settings: GameSettings): GalleryOrder {
+  const keepsSecret = GALLERY_ORDERS.some((o) => o.order === settings.galleryOrder && o.anonymous);
+  return settings.anonymousVoting && !keepsSecret ? "random" : settings.galleryOrder;
+}
+
+export const SLIDE_ADVANCES: { advance: SlideAdvance; label: string }[] = [
+  { advance: "timed", label: "⏱️ Timed" },
+  { advance: "manual", label: "✋ Manual" },
+];
+
+export const CANVAS_SIZES = [
+  { label: "Small (400×300)", width: 400, height: 300 },
+  { label: "Medium (600×400)", width: 600, height: 400 },
+  { label: "Large (800×600)", width: 800, height: 600 },
+  { label: "Wide (900×450)", width: 900, height: 450 },
+];
+
+export const UNLOCK_PRESETS = [
+  { label: "Everything unlocked", scale: 0 },
+  { label: "Easy", scale: 0.5 },
+  { label: "Normal", scale: 1 },
+  { label: "Hard", scale: 1.5 },
+];
+
+// Fills in missing fields and pulls every value back into range, so an old or
+// hand-edited save can't break a game
+export function normalizeSettings(settings: Partial<GameSettings>): GameSettings {
+  const normalized = { ...DEFAULT_GAME_SETTINGS };
+  for (const key of Object.keys(SETTING_LIMITS) as NumericSetting[]) {
+    const value = Number(settings[key]);
+    if (Number.isFinite(value)) {
+      const { min, max } = SETTING_LIMITS[key];
+      normalized[key] = Math.min(max, Math.max(min, value));
+    }
+  }
+  for (const key of ["guessSentences", "categoryVoting", "rankedVoting", "anonymousVoting"] as const) {
+    if (typeof settings[key] === "boolean") {
+      normalized[key] = settings[key];
+    }
+  }
+  if (VOTING_SCHEMES.some((option) => option.scheme === settings.voting)) {
+    normalized.voting = settings.voting!;
+  }
+  if (GALLERY_ORDERS.some((option) => option.order === settings.galleryOrder)) {
+    normalized.galleryOrder = settings.galleryOrder!;
+  }
+  if (SLIDE_ADVANCES.some((option) => option.advance === settings.slideAdvance)) {
+    normalized.slideAdvance = settings.slideAdvance!;
+  }
+  return normalized;
+}
+
+export function loadGameSettings(): GameSettings {
+  if (typeof window === "undefined") return DEFAULT_GAME_SETTINGS;
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_KEY);
+    return raw ? normalizeSettings(JSON.parse(raw) as Partial<GameSettings>) : DEFAULT_GAME_SETTINGS;
+  } catch {
+    return DEFAULT_GAME_SETTINGS;
+  }
+}
+
+export function saveGameSettings(settings: GameSettings) {
+  window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,99 @@
+// A small subset of JSON Patch (RFC 6902): enough to describe how one game
+// state differs from the last one a player received
+
+export type PatchOp =
+  | { op: "add" | "replace"; path: string; value: unknown }
+  | { op: "remove"; path: string };
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function escapeSegment(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function unescapeSegment(segment: string): string {
+  return segment.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+// undefined never survives serialization, so treat it as a missing key
+function toJsonValue(value: unknown): unknown {
+  return value === undefined ? null : value;
+}
+
+function diffInto(prev: unknown, next: unknown, path: string, ops: PatchOp[]) {
+  if (prev === next) return;
+
+  if (isObject(prev) && isObject(next)) {
+    for (const key of Object.keys(prev)) {
+      if (prev[key] !== undefined && next[key] === undefined) {
+        ops.push({ op: "remove", path: `${path}/${escapeSegment(key)}` });
+      }
+    }
+    for (const key of Object.keys(next)) {
+      if (next[key] === undefined) continue;
+      const childPath = `${path}/${escapeSegment(key)}`;
+      if (prev[key] === undefined) {
+        ops.push({ op: "add", path: childPath, value: next[key] });
+      } else {
+        diffInto(prev[key], next[key], childPath, ops);
+      }
+    }
+    return;
+  }
+
+  // Arrays that keep their length (players, answers) are diffed item by item;
+  // anything else is cheaper to send whole
+  if (Array.isArray(prev) && Array.isArray(next) && prev.length === next.length) {
+    for (let i = 0; i < next.length; i++) {
+      diffInto(prev[i], next[i], `${path}/${i}`, ops);
+    }
+    return;
+  }
+
+  ops.push({ op: "replace", path, value: toJsonValue(next) });
+}
+
+export function diffState(prev: unknown, next: unknown): PatchOp[] {
+  const ops: PatchOp[] = [];
+  diffInto(prev, next, "", ops);
+  return ops;
+}
+
+// Copy-on-write, so unchanged parts of the state keep their identity
+function applyAt(target: unknown, segments: string[], op: PatchOp): unknown {
+  if (segments.length === 0) {
+    return op.op === "remove" ? undefined : op.value;
+  }
+
+  const [segment, ...rest] = segments;
+  if (Array.isArray(target)) {
+    const copy = [...target];
+    const index = Number(segment);
+    copy[index] = applyAt(copy[index], rest, op);
+    return copy;
+  }
+  if (isObject(target)) {
+    const copy = { ...target };
+    const value = applyAt(copy[segment], rest, op);
+    if (value === undefined) {
+      delete copy[segment];
+    } else {
+      copy[segment] = value;
+    }
+    return copy;
+  }
+  throw new Error(`Cannot apply patch at ${op.path}`);
+}
+
+export function applyPatch<T>(doc: T, ops: PatchOp[]): T {
+  let result: unknown = doc;
+  for (const op of ops) {
+    const segments = op.path === "" ? [] : op.path.slice(1).split("/").map(unescapeSegment);
+    result = applyAt(result, segments, op);
+  }
+  return result as T;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from "vitest";
+import { StateSyncReceiver, StateSyncSender } from "./stateSync";
+import { createInitialGameState, GameState } from "./types";
+
+const base = createInitialGameState("ROOM42");
+
+describe("StateSyncReceiver", () => {
+  it("follows the sender's deltas", () => {
+    const sender = new StateSyncSender();
+    const receiver = new StateSyncReceiver(vi.fn());
+    const next: GameState = { ...base, phase: "quiz", endsAt: 1000 };
+
+    receiver.receiveSnapshot(sender.snapshot("p1", base));
+    const synced = receiver.receiveDelta(sender.delta("p1", next)!);
+
+    expect(synced).toEqual(next);
+  });
+
+  it("asks for a snapshot once when a delta goes missing", () => {
+    const sender = new StateSyncSender();
+    const onGap = vi.fn();
+    const receiver = new StateSyncReceiver(onGap);
+
+    receiver.receiveSnapshot(sender.snapshot("p1", base));
+    sender.delta("p1", { ...base, phase: "quiz" });
+    const late = sender.delta("p1", { ...base, phase: "drawing" })!;
+
+    expect(receiver.receiveDelta(late)).toBeNull();
+    expect(receiver.receiveDelta(late)).toBeNull();
+    expect(onGap).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops a delta that doesn't fit its state and asks for a snapshot", () => {
+    const onGap = vi.fn();
+    const receiver = new StateSyncReceiver(onGap);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    receiver.receiveSnapshot({ version: 1, state: base });
+    const synced = receiver.receiveDelta({
+      version: 2,
+      ops: [{ op: "replace", path: "/players/3/name", value: "Ada" }],
+    });
+
+    expect(synced).toBeNull();
+    expect(onGap).toHaveBeenCalledTimes(1);
+
+    // A fresh snapshot gets it going again
+    const resynced = receiver.receiveSnapshot({ version: 5, state: base });
+    expect(resynced).toBe(base);
+  });
+});
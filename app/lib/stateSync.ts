@@ -0,0 +1,87 @@
+import { applyPatch, diffState, PatchOp } from "./statePatch";
+import { GameState } from "./types";
+
+// Full state, sent when a player joins, asks to resync or the host changes
+export interface StateSnapshot {
+  version: number;
+  state: GameState;
+}
+
+// Changes since the previous version the player received
+export interface StateDelta {
+  version: number;
+  ops: PatchOp[];
+}
+
+// Host side: remembers what each player was last sent so only changes go out
+export class StateSyncSender {
+  private sent = new Map<string, StateSnapshot>();
+
+  snapshot(peerId: string, state: GameState): StateSnapshot {
+    const version = (this.sent.get(peerId)?.version ?? 0) + 1;
+    const snapshot = { version, state };
+    this.sent.set(peerId, snapshot);
+    return snapshot;
+  }
+
+  // Returns null when the player is already up to date
+  delta(peerId: string, state: GameState): StateDelta | null {
+    const last = this.sent.get(peerId);
+    if (!last) return null;
+
+    const ops = diffState(last.state, state);
+    if (ops.length === 0) return null;
+
+    const version = last.version + 1;
+    this.sent.set(peerId, { version, state });
+    return { version, ops };
+  }
+
+  hasSent(peerId: string): boolean {
+    return this.sent.has(peerId);
+  }
+
+  forget(peerId: string) {
+    this.sent.delete(peerId);
+  }
+}
+
+// Player side: applies deltas in order and spots any that went missing
+export class StateSyncReceiver {
+  private version = 0;
+  private state: GameState | null = null;
+  private awaitingSnapshot = false;
+
+  // onGap is called once per gap, to ask the host for a fresh snapshot
+  constructor(private onGap: () => void) {}
+
+  receiveSnapshot(snapshot: StateSnapshot): GameState {
+    this.version = snapshot.version;
+    this.state = snapshot.state;
+    this.awaitingSnapshot = false;
+    return snapshot.state;
+  }
+
+  // Returns null while deltas can't be applied until the next snapshot
+  receiveDelta(delta: StateDelta): GameState | null {
+    if (this.awaitingSnapshot) return null;
+    if (!this.state || delta.version !== this.version + 1) {
+      return this.resync();
+    }
+    try {
+      this.state = applyPatch(this.state, delta.ops);
+    } catch (err) {
+      // Made against a state we don't have, so it's as good as a gap
+      console.error("Dropping a state delta that doesn't fit:", err);
+      return this.resync();
+    }
+    this.version = delta.version;
+    return this.state;
+  }
+
+  private resync(): null {
+    this.awaitingSnapshot = true;
+    this.onGap();
+    return null;
+  }
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { applyDrawingProgress, CanvasAction, encodeDrawing } from "./drawing";
+import { isSentenceApproved } from "./moderation";
+import { Drawing, GameSettings, GameState, Player, Team, TeamCanvasUpdate } from "./types";
+
+export const TEAM_PRESETS = [
+  { name: "Red Rockets", color: "#ef4444" },
+  { name: "Blue Whales", color: "#3b82f6" },
+  { name: "Green Geckos", color: "#22c55e" },
+  { name: "Yellow Yetis", color: "#eab308" },
+  { name: "Purple Pandas", color: "#a855f7" },
+  { name: "Orange Owls", color: "#f97316" },
+];
+export const MIN_TEAMS = 2;
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function createTeam(index: number): Team {
+  const preset = TEAM_PRESETS[index % TEAM_PRESETS.length];
+  return { id: `team-${index + 1}`, name: preset.name, color: preset.color, playerIds: [] };
+}
+
+// Deals the players out into evenly sized teams at random
+export function shuffleTeams(state: GameState, count: number): Team[] {
+  const teams = Array.from({ length: count }, (_, index) => createTeam(index));
+  shuffle(state.players.filter((p) => !p.isHost)).forEach((player, index) => {
+    teams[index % count].playerIds.push(player.id);
+  });
+  return teams;
+}
+
+export function moveToTeam(teams: Team[], playerId: string, teamId: string): Team[] {
+  return teams.map((team) => {
+    const playerIds = team.playerIds.filter((id) => id !== playerId);
+    return { ...team, playerIds: team.id === teamId ? [...playerIds, playerId] : playerIds };
+  });
+}
+
+export function getTeamOf(state: GameState, playerId: string): Team | undefined {
+  if (state.gameMode !== "teams") return undefined;
+  return state.teams.find((team) => team.playerIds.includes(playerId));
+}
+
+// Teammates still in the room
+export function getTeamMembers(state: GameState, team: Team): Player[] {
+  return team.playerIds
+    .map((id) => state.players.find((p) => p.id === id))
+    .filter((p): p is Player => !!p && !p.isHost);
+}
+
+// Drops players who have left, and puts anyone without a team (a latecomer,
+// say) in the smallest one
+export function fillTeams(state: GameState): Team[] {
+  const teams = state.teams.length > 0
+    ? state.teams.map((team) => ({ ...team, playerIds: getTeamMembers(state, team).map((p) => p.id) }))
+    : Array.from({ length: MIN_TEAMS }, (_, index) => createTeam(index));
+  for (const player of state.players) {
+    if (player.isHost || teams.some((team) => team.playerIds.includes(player.id))) continue;
+    const smallest = teams.reduce((a, b) => (b.playerIds.length < a.playerIds.length ? b : a));
+    smallest.playerIds.push(player.id);
+  }
+  return teams;
+}
+
+// Each team gets one sentence to draw, written by someone on another team
+// when there's one left
+export function assignTeamSentences(state: GameState): GameState {
+  const teams = fillTeams(state);
+  const sentences = shuffle(state.players.filter((p) => !p.isHost && isSentenceApproved(p)));
+  const unused = [...sentences];
+
+  const assignments = new Map<string, string>();
+  teams.forEach((team, index) => {
+    const fromOthers = unused.findIndex((p) => !team.playerIds.includes(p.id));
+    const author = unused.length > 0
+      ? unused.splice(Math.max(0, fromOthers), 1)[0]
+      : sentences[index % sentences.length];
+    if (!author) return;
+    team.playerIds.forEach((id) => assignments.set(id, author.sentence!));
+  });
+
+  return {
+    ...state,
+    teams,
+    players: state.players.map((p) => ({
+      ...p,
+      assignedSentence: p.isHost ? undefined : assignments.get(p.id),
+    })),
+  };
+}
+
+// Tools and colors are pooled: the team draws with whatever its best quiz
+// score unlocked
+export function getUnlockScore(state: GameState, player: Player): number {
+  const team = getTeamOf(state, player.id);
+  if (!team) return player.quizScore;
+  return Math.max(player.quizScore, ...getTeamMembers(state, team).map((p) => p.quizScore));
+}
+
+// Every teammate holds a copy of the team's drawing; the first of them stands
+// in for the team in the gallery and collects its votes
+export function isTeamRepresentative(state: GameState, player: Player): boolean {
+  const team = getTeamOf(state, player.id);
+  if (!team) return true;
+  return getTeamMembers(state, team).find((p) => p.drawing)?.id === player.id;
+}
+
+export function getRepresentative(state: GameState, player: Player): Player {
+  const team = getTeamOf(state, player.id);
+  if (!team) return player;
+  return getTeamMembers(state, team).find((p) => isTeamRepresentative(state, p)) ?? player;
+}
+
+export function getArtistName(state: GameState, player: Player): string {
+  return getTeamOf(state, player.id)?.name ?? player.name;
+}
+
+// Whether two players drew the same drawing - the same player, or teammates
+export function isSameArtist(state: GameState, playerId: string, otherId: string): boolean {
+  if (playerId === otherId) return true;
+  return !!getTeamOf(state, playerId)?.playerIds.includes(otherId);
+}
+
+// Host only: a team canvas as the host has it - every teammate's actions in
+// the order they arrived, and how many of each teammate's own it has
+export interface TeamCanvas {
+  actions: CanvasAction[];
+  received: Record<string, number>;
+}
+
+// Player only: the team canvas as last sent by the host
+export interface SharedCanvas {
+  drawing: Drawing;
+  received: number;
+}
+
+// Actions that make it into an encoded drawing, so indices line up with it
+function isDrawable(action: CanvasAction): boolean {
+  return action.type === 'fill'
+    ? action.fillX !== undefined && action.fillY !== undefined
+    : !!action.points?.length;
+}
+
+// Teammates' clocks don't agree, so each action is moved to end when it
+// reached the host, which keeps the replay in the order things were drawn
+function retime(action: CanvasAction, receivedAt: number): CanvasAction {
+  if (action.type === 'fill') return { ...action, t: receivedAt };
+  const end = Math.max(...(action.points ?? []).map((p) => p.t ?? receivedAt));
+  return { ...action, points: action.points?.map((p) => ({ ...p, t: (p.t ?? end) + receivedAt - end })) };
+}
+
+// Adds a teammate's finished actions - `from` is how many they'd sent before
+export function addTeamActions(
+  canvas: TeamCanvas | undefined,
+  playerId: string,
+  from: number,
+  actions: CanvasAction[],
+  receivedAt: number
+): TeamCanvas {
+  return {
+    actions: [
+      ...(canvas?.actions ?? []),
+      ...actions.filter(isDrawable).map((action) => retime(action, receivedAt)),
+    ],
+    received: { ...canvas?.received, [playerId]: from + actions.length },
+  };
+}
+
+export function getTeamDrawing(canvas: TeamCanvas | undefined, settings: GameSettings): Drawing {
+  return encodeDrawing(canvas?.actions ?? [], settings.canvasWidth, settings.canvasHeight);
+}
+
+// What to send a teammate: the canvas from action `from` on
+export function getTeamCanvasUpdate(
+  canvas: TeamCanvas,
+  playerId: string,
+  settings: GameSettings,
+  from = 0
+): TeamCanvasUpdate {
+  const { width, height, actions } = getTeamDrawing(canvas, settings);
+  return {
+    progress: { from, actions: actions.slice(from), width, height },
+    received: canvas.received[playerId] ?? 0,
+  };
+}
+
+export function applyTeamCanvas(shared: SharedCanvas | null, update: TeamCanvasUpdate): SharedCanvas {
+  return {
+    drawing: applyDrawingProgress(shared?.drawing, update.progress),
+    received: update.received,
+  };
+}
+
+function shareTeamDrawing(state: GameState, team: Team, drawing: Drawing): GameState {
+  return {
+    ...state,
+    players: state.players.map((p) => (team.playerIds.includes(p.id) ? { ...p, drawing } : p)),
+  };
+}
+
+// A player handing in a drawing - in team mode, whichever teammate submits
+// hands in the host's copy of the shared canvas for the whole team
+export function recordDrawing(
+  state: GameState,
+  playerId: string,
+  drawing: Drawing,
+  canvases: Map<string, TeamCanvas>
+): GameState {
+  const team = getTeamOf(state, playerId);
+  if (team) {
+    return shareTeamDrawing(state, team, getTeamDrawing(canvases.get(team.id), state.settings));
+  }
+  return {
+    ...state,
+    players: state.players.map((p) => (p.id === playerId ? { ...p, drawing } : p)),
+  };
+}
+
+// Teams that never submitted are shown with whatever they'd drawn
+export function collectTeamDrawings(state: GameState, canvases: Map<string, TeamCanvas>): GameState {
+  if (state.gameMode !== "teams") return state;
+  return state.teams.reduce((next, team) => {
+    const canvas = canvases.get(team.id);
+    const submitted = getTeamMembers(next, team).some((p) => p.drawing);
+    return submitted || !canvas?.actions.length
+      ? next
+      : shareTeamDrawing(next, team, getTeamDrawing(canvas, next.settings));
+  }, state);
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { findBlockedWords, isSentenceApproved } from "./moderation";
+import { Chain, ChainStep, Drawing, GameState, Player, SlideAdvance } from "./types";
+
+// Odd steps draw the text before them, even steps describe the drawing before them
+export function isDrawingStep(step: number): boolean {
+  return step % 2 === 1;
+}
+
+export function getChainLength(state: GameState): number {
+  return state.chains[0]?.steps.length ?? 0;
+}
+
+export function isLastChainStep(state: GameState): boolean {
+  return state.chainStep >= getChainLength(state);
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Plans every chain up front: each sentence moves one seat along per step, so
+// nobody works on their own sentence or sees the same chain twice
+export function createChains(state: GameState): Chain[] {
+  const seats = shuffle(state.players.filter((p) => !p.isHost));
+  const length = Math.max(0, Math.min(state.settings.chainSteps, seats.length - 1));
+  return seats.flatMap((author, seat) => {
+    if (!isSentenceApproved(author)) return [];
+    const steps = Array.from({ length }, (_, i): ChainStep => {
+      const player = seats[(seat + i + 1) % seats.length];
+      return { playerId: player.id, name: player.name };
+    });
+    return [{ id: author.id, authorName: author.name, sentence: author.sentence!, steps }];
+  });
+}
+
+// The latest description in the chain before the given step - a missed turn
+// passes on whatever came before it
+function getLastText(chain: Chain, step: number): string {
+  for (let i = step - 2; i >= 0; i--) {
+    const text = chain.steps[i].text;
+    if (text) return text;
+  }
+  return chain.sentence;
+}
+
+function getLastDrawing(chain: Chain, step: number): Drawing | undefined {
+  for (let i = step - 2; i >= 0; i--) {
+    const drawing = chain.steps[i].drawing;
+    if (drawing) return drawing;
+  }
+  return undefined;
+}
+
+function clearTask(player: Player): Player {
+  return {
+    ...player,
+    drawing: undefined,
+    guess: undefined,
+    guessRejected: undefined,
+    assignedSentence: undefined,
+    assignedDrawing: undefined,
+  };
+}
+
+// Hands everyone their part of the given step. Players whose chain has nothing
+// to describe yet sit the step out.
+function assignChainStep(state: GameState, step: number, now: number): GameState {
+  const drawingStep = isDrawingStep(step);
+  const tasks = new Map<string, Pick<Player, "assignedSentence" | "assignedDrawing">>();
+  for (const chain of state.chains) {
+    const playerId = chain.steps[step - 1].playerId;
+    if (drawingStep) {
+      tasks.set(playerId, { assignedSentence: getLastText(chain, step) });
+    } else {
+      const drawing = getLastDrawing(chain, step);
+      if (drawing) tasks.set(playerId, { assignedDrawing: drawing });
+    }
+  }
+
+  return {
+    ...state,
+    phase: drawingStep ? "drawing" : "guessing",
+    chainStep: step,
+    endsAt:
+      now + (drawingStep ? state.settings.drawingDuration : state.settings.guessDuration) * 1000,
+    players: state.players.map((p) => (p.isHost ? p : { ...clearTask(p), ...tasks.get(p.id) })),
+  };
+}
+
+// When the chain moves on with `shown` links already up, one more link every
+// slideDuration seconds. Paused or manual chains wait for the teacher.
+function getChainEndsAt(state: GameState, chain: Chain, shown: number, now: number): number | null {
+  if (state.pausedAtLink !== null || state.settings.slideAdvance === "manual") return null;
+  return now + (chain.steps.length + 2 - shown) * state.settings.slideDuration * 1000;
+}
+
+// Links showing right now on the host, from the time left on the chain
+function getShownLinks(state: GameState, chain: Chain, now: number): number {
+  const timeRemaining = state.endsAt === null ? 0 : Math.ceil((state.endsAt - now) / 1000);
+  return getRevealedLinks(state, chain, timeRemaining);
+}
+
+// Each chain is revealed one link at a time, slideDuration seconds apiece,
+// or by the teacher when the slideshow is paced by hand
+export function goToChainSlide(state: GameState, index: number, now: number): GameState {
+  const chain = state.chains[index];
+  if (!chain) {
+    return { ...state, phase: "leaderboard", replay: null, pausedAtLink: null, endsAt: null };
+  }
+  const manual = state.settings.slideAdvance === "manual";
+  const updated = { ...state, currentSlideIndex: index, replay: null, pausedAtLink: manual ? 1 : null };
+  return { ...updated, endsAt: getChainEndsAt(updated, chain, 1, now) };
+}
+
+// The teacher's "next": paced by hand, that's the chain's next link until
+// the whole chain is up; otherwise the next chain
+export function nextChainStep(state: GameState, now: number): GameState {
+  const chain = state.chains[state.currentSlideIndex];
+  const shown = state.pausedAtLink;
+  if (chain && state.settings.slideAdvance === "manual" && shown !== null && shown <= chain.steps.length) {
+    return { ...state, pausedAtLink: shown + 1 };
+  }
+  return goToChainSlide(state, state.currentSlideIndex + 1, now);
+}
+
+// Pausing holds the links already up; resuming carries on from there. A chain
+// paced by hand is held already.
+export function setChainSlidePaused(state: GameState, paused: boolean, now: number): GameState {
+  const chain = state.chains[state.currentSlideIndex];
+  if (!chain || state.settings.slideAdvance === "manual") return state;
+  if ((state.pausedAtLink !== null) === paused) return state;
+  const shown = getShownLinks(state, chain, now);
+  const updated = { ...state, pausedAtLink: paused ? shown : null };
+  return { ...updated, endsAt: getChainEndsAt(updated, chain, shown, now) };
+}
+
+// Switching pace keeps the links already up: by hand they're held there, and
+// timed they carry on from there
+export function setChainSlideAdvance(state: GameState, slideAdvance: SlideAdvance, now: number): GameState {
+  const chain = state.chains[state.currentSlideIndex];
+  const updated = { ...state, settings: { ...state.settings, slideAdvance } };
+  if (!chain || slideAdvance === state.settings.slideAdvance) return updated;
+  const shown = getShownLinks(state, chain, now);
+  const held = { ...updated, pausedAtLink: slideAdvance === "manual" ? shown : null };
+  return { ...held, endsAt: getChainEndsAt(held, chain, shown, now) };
+}
+
+function startChainSlideshow(state: GameState, now: number): GameState {
+  return goToChainSlide(
+    {
+      ...state,
+      phase: "slideshow",
+      chainStep: 0,
+      currentSlideIndex: 0,
+      players: state.players.map((p) => (p.isHost ? p : clearTask(p))),
+    },
+    0,
+    now
+  );
+}
+
+export function startChains(state: GameState, now: number): GameState {
+  const started: GameState = { ...state, chains: createChains(state), chainStep: 0 };
+  return getChainLength(started) > 0
+    ? assignChainStep(started, 1, now)
+    : startChainSlideshow(started, now);
+}
+
+// Files what everyone handed in for the current step - drawings nobody
+// submitted are taken as far as they got - and moves every chain along
+export function advanceChains(
+  state: GameState,
+  liveDrawings: Record<string, Drawing>,
+  now: number
+): GameState {
+  const index = state.chainStep - 1;
+  const drawingStep = isDrawingStep(state.chainStep);
+  const players = new Map(state.players.map((p) => [p.id, p]));
+
+  const chains = state.chains.map((chain) => {
+    const step = chain.steps[index];
+    const player = players.get(step.playerId);
+    let work: Partial<ChainStep>;
+    if (drawingStep) {
+      const drawing = player?.drawing ?? liveDrawings[step.playerId];
+      work = { drawing: drawing?.actions.length ? drawing : undefined };
+    } else {
+      work = { text: player?.guess || undefined };
+    }
+    return { ...chain, steps: chain.steps.map((s, i) => (i === index ? { ...s, ...work } : s)) };
+  });
+
+  const next: GameState = { ...state, chains };
+  return isLastChainStep(state)
+    ? startChainSlideshow(next, now)
+    : assignChainStep(next, state.chainStep + 1, now);
+}
+
+// A description of the player's assigned drawing, turned away if it uses a
+// blocked word so they can write another
+export function recordGuess(state: GameState, playerId: string, text: string): GameState {
+  const guess = text.trim();
+  if (state.phase !== "guessing" || !guess) return state;
+
+  const rejected = !!state.moderation && findBlockedWords(guess, state.moderation).length > 0;
+  return {
+    ...state,
+    players: state.players.map((p) => {
+      if (p.id !== playerId || !p.assignedDrawing) return p;
+      return rejected
+        ? { ...p, guess: undefined, guessRejected: true }
+        : { ...p, guess, guessRejected: undefined };
+    }),
+  };
+}
+
+// How many links of the chain are showing, its sentence included
+export function getRevealedLinks(state: GameState, chain: Chain, timeRemaining: number): number {
+  if (state.pausedAtLink !== null) return state.pausedAtLink;
+  const links = chain.steps.length + 1;
+  const { slideDuration } = state.settings;
+  return Math.min(links, Math.max(1, links - Math.floor((timeRemaining - 1) / slideDuration)));
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { GameMessage } from "./types";
+
+export type TransportKind = "peerjs" | "websocket" | "memory";
+
+// How players reach a room: what it runs on and, on the relay, where that is
+export interface RoomAddress {
+  transport: TransportKind;
+  relayUrl: string | null;
+}
+
+type MessageHandler = (message: GameMessage) => void;
+type ConnectionHandler = (peerId: string, metadata?: unknown) => void;
+type DisconnectionHandler = (peerId: string) => void;
+
+export interface ConnectOptions {
+  peerId: string;
+  // Players connect to the host's peer ID; the host leaves this out and waits
+  hostId?: string;
+  metadata?: unknown;
+}
+
+export type TransportErrorType = "unavailable-id" | "peer-unavailable" | "network";
+
+export class TransportError extends Error {
+  constructor(public type: TransportErrorType, message: string) {
+    super(message);
+    this.name = "TransportError";
+  }
+}
+
+// How game messages get between peers. The host sees every player; a player
+// only ever talks to the host.
+export interface Transport {
+  connect(options: ConnectOptions): Promise<void>;
+  send(message: GameMessage): void;
+  sendToPlayer(peerId: string, message: GameMessage): void;
+  onMessage(handler: MessageHandler): () => void;
+  onConnection(handler: ConnectionHandler): () => void;
+  onDisconnection(handler: DisconnectionHandler): () => void;
+  getPeerIds(): string[];
+  // Host only: drop one player's link
+  disconnectPeer(peerId: string): void;
+  disconnect(): void;
+}
+
+// Handler bookkeeping shared by every transport
+export abstract class BaseTransport implements Transport {
+  private messageHandlers: MessageHandler[] = [];
+  private connectionHandlers: ConnectionHandler[] = [];
+  private disconnectionHandlers: DisconnectionHandler[] = [];
+
+  abstract connect(options: ConnectOptions): Promise<void>;
+  abstract send(message: GameMessage): void;
+  abstract sendToPlayer(peerId: string, message: GameMessage): void;
+  abstract getPeerIds(): string[];
+  abstract disconnectPeer(peerId: string): void;
+  abstract disconnect(): void;
+
+  onMessage(handler: MessageHandler) {
+    this.messageHandlers.push(handler);
+    return () => {
+      this.messageHandlers = this.messageHandlers.filter((h) => h !== handler);
+    };
+  }
+
+  onConnection(handler: ConnectionHandler) {
+    this.connectionHandlers.push(handler);
+    return () => {
+      this.connectionHandlers = this.connectionHandlers.filter((h) => h !== handler);
+    };
+  }
+
+  onDisconnection(handler: DisconnectionHandler) {
+    this.disconnectionHandlers.push(handler);
+    return () => {
+      this.disconnectionHandlers = this.disconnectionHandlers.filter((h) => h !== handler);
+    };
+  }
+
+  protected emitMessage(message: GameMessage) {
+    this.messageHandlers.forEach((handler) => handler(message));
+  }
+
+  protected emitConnection(peerId: string, metadata?: unknown) {
+    this.connectionHandlers.forEach((handler) => handler(peerId, metadata));
+  }
+
+  protected emitDisconnection(peerId: string) {
+    this.disconnectionHandlers.forEach((handler) => handler(peerId));
+  }
+}
@@ -4,19 +4,130 @@ export type GamePhase =
   | 'sentence_submission' 
   | 'quiz' 
   | 'drawing' 
+  | 'guessing'
+  | 'sentence_guessing'
   | 'slideshow' 
-  | 'leaderboard';
+  | 'final_vote'
+  | 'leaderboard'
+  | 'game_over';
 
 export interface Player {
   id: string;
   name: string;
   isHost: boolean;
   sentence?: string;
-  quizScore: number;
-  drawingDataUrl?: string;
+  sentenceStatus?: SentenceStatus; // set once a sentence has been submitted
+  quizScore: number; // points, including speed and streak bonuses
+  quizCorrect: number;
+  drawing?: Drawing;
+  drawingId?: string; // given out when the gallery is put in order; shared by a team
+  drawingHidden?: boolean; // taken out of the slideshow and leaderboard by the teacher
   assignedSentence?: string;
+  assignedDrawing?: Drawing; // telephone mode: the drawing to describe
+  guess?: string; // telephone mode: their description of assignedDrawing
+  guessRejected?: boolean; // the last guess used a blocked word
   thumbsUp: number;
   thumbsDown: number;
+  disconnectedAt?: number; // set while the player is inside the reconnect grace period
+}
+
+export type SentenceStatus = 'pending' | 'approved' | 'rejected';
+
+// What a player thinks a drawing's sentence was, scored by the host
+export interface PromptGuess {
+  text: string;
+  similarity: number; // 0 to 1, against the sentence the artist drew
+  rejected?: boolean; // used a blocked word - the player can guess again
+}
+
+// A drawing in the gallery as a player sees it - without its artist while
+// anonymous voting keeps them a secret
+export interface GalleryDrawing {
+  id: string; // the drawing ID
+  drawing: Drawing;
+  prompt?: string; // the sentence it was drawn from, once it's been revealed
+  artist?: Player;
+}
+
+// How players vote on each drawing during the slideshow
+export type VotingScheme = 'thumbs' | 'stars';
+
+// The order the slideshow goes through the gallery in
+export type GalleryOrder = 'joined' | 'random' | 'author' | 'artist';
+
+// Timed: each slide moves on once its replay and vote are over.
+// Manual: the teacher moves on when the class is ready.
+export type SlideAdvance = 'timed' | 'manual';
+
+// Classic: everyone draws someone else's sentence once.
+// Telephone: sentences are passed along, drawn, described, drawn again...
+// Teams: like classic, but each team draws one sentence on a shared canvas.
+export type GameMode = 'classic' | 'telephone' | 'teams';
+
+export interface Team {
+  id: string;
+  name: string;
+  color: string;
+  playerIds: string[];
+}
+
+// One link in a telephone chain: a drawing of the text before it, or a
+// description of the drawing before it. Empty if the player missed it.
+export interface ChainStep {
+  playerId: string;
+  name: string;
+  drawing?: Drawing;
+  text?: string;
+}
+
+export interface Chain {
+  id: string; // the player who wrote the sentence
+  authorName: string;
+  sentence: string;
+  steps: ChainStep[]; // everyone's turn is planned when the chains start
+}
+
+// A submitted drawing, kept as vectors so it can be redrawn at any size
+export interface Drawing {
+  width: number;
+  height: number;
+  actions: DrawingAction[];
+}
+
+export type DrawingAction =
+  | {
+      type: 'stroke';
+      tool: ToolType;
+      color: string;
+      size: number;
+      t: number; // ms into the drawing when the stroke began
+      points: number[]; // x, y, pressure, time quads, each relative to the previous point
+    }
+  | { type: 'fill'; color: string; x: number; y: number; t: number };
+
+// Changes to a player's canvas since their last update, streamed to the host
+// while they draw: everything from index `from` on is replaced by `actions`
+export interface DrawingProgress {
+  from: number;
+  actions: DrawingAction[];
+  width: number;
+  height: number;
+}
+
+// Team mode: the host's shared canvas as it grows, sent to every teammate
+export interface TeamCanvasUpdate {
+  progress: DrawingProgress;
+  received: number; // how many of this teammate's own actions it includes
+}
+
+// Time-lapse of the current slide's drawing, anchored to the host's clock so
+// every screen shows the same moment of it
+export interface SlideReplay {
+  startedAt: number; // host clock
+  position: number; // ms into the drawing at startedAt
+  speed: number;
+  rate: number; // recorded ms played per ms at 1x
+  paused?: boolean; // held at position by the teacher
 }
 
 export interface QuizQuestion {
@@ -26,6 +137,48 @@ export interface QuizQuestion {
   correctIndex: number;
 }
 
+// What players get to see of a question - the answer key stays with the host
+export type PublicQuizQuestion = Omit<QuizQuestion, 'correctIndex'>;
+
+export function toPublicQuestion(question: QuizQuestion): PublicQuizQuestion {
+  return { id: question.id, question: question.question, options: question.options };
+}
+
+// The host's verdict on one answer, sent only to the player who gave it
+export interface QuizAnswerResult {
+  questionIndex: number;
+  answerIndex: number | null; // null when time ran out before they answered
+  correctIndex?: number; // left out until the answer is revealed
+  points?: number;
+}
+
+export interface QuestionBank {
+  id: string;
+  name: string;
+  questions: QuizQuestion[];
+}
+
+// How quiz answers turn into points
+export interface ScoringModel {
+  pointsPerCorrect: number;
+  maxSpeedBonus: number; // awarded for an instant answer, shrinking to 0
+  speedWindow: number; // seconds after which an answer earns no speed bonus
+  streakBonus: number; // extra points per consecutive correct answer
+  maxStreakBonus: number;
+}
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  pointsPerCorrect: 100,
+  maxSpeedBonus: 50,
+  speedWindow: 15,
+  streakBonus: 20,
+  maxStreakBonus: 100,
+};
+
+// Self-paced: everyone works through the questions on their own clock.
+// Classroom: the host moves the whole room through one question at a time.
+export type QuizMode = 'self_paced' | 'classroom';
+
 export type ToolType = 'pen' | 'eraser' | 'fill' | 'brush' | 'spray';
 
 export interface DrawingTool {
@@ -34,30 +187,164 @@ export interface DrawingTool {
   color: string;
   size: number;
   type: ToolType;
-  unlockThreshold: number; // number of correct answers needed
+  unlockThreshold: number; // quiz points needed, for the default questions and scoring
 }
 
 export interface GameState {
   phase: GamePhase;
   roomCode: string;
   players: Player[];
-  currentQuestionIndex: number;
+  quizQuestions: PublicQuizQuestion[]; // the host's chosen question bank
+  answerKey?: number[]; // host only - stripped before state is sent to players
+  quizMode: QuizMode;
+  gameMode: GameMode;
+  currentQuestionIndex: number; // classroom mode only
+  questionRevealed: boolean; // classroom mode: answers locked and shown
   quizAnswers: Record<string, number[]>; // playerId -> answers
-  quizTimeRemaining: number;
-  drawingTimeRemaining: number;
+  quizAnswerTimes: Record<string, number[]>; // playerId -> when each answer reached the host
+  questionStartTimes: number[]; // classroom: when each question opened; self-paced: [quiz start]
+  scoringModel: ScoringModel;
+  settings: GameSettings;
+  moderation?: ModerationSettings; // host only - stripped before state is sent to players
+  access?: RoomAccess; // host only
+  // When the running countdown ends, on the host's clock: the quiz, a classroom
+  // question or its reveal, the drawing phase or the current slide
+  endsAt: number | null;
   currentSlideIndex: number;
-  slideTimeRemaining: number;
-  reactions: Record<string, { thumbsUp: string[]; thumbsDown: string[] }>; // playerId -> who reacted
+  replay: SlideReplay | null; // slideshow only
+  pausedAtLink: number | null; // telephone slideshow: links held on screen while paused or paced by hand
+  slideOrder: string[]; // drawing IDs, in the order the gallery is shown
+  revealedDrawings: string[]; // anonymous voting: drawing IDs whose votes are in and artist shown
+  // Players only: drawings whose artist is still a secret to them, added by the projection
+  anonymousGallery?: GalleryDrawing[];
+  reactions: Record<string, { thumbsUp: string[]; thumbsDown: string[] }>; // drawingId -> who reacted
+  ratings: Record<string, Record<string, number>>; // drawingId -> voterId -> 1 to 5 stars
+  categoryVotes: Record<string, Record<string, string>>; // category ID -> voterId -> artistId
+  rankedBallots: Record<string, string[]>; // voterId -> artistIds, favourite first
+  promptGuesses: Record<string, Record<string, PromptGuess>>; // drawingId -> guesserId -> guess
+  teams: Team[]; // team mode
+  chains: Chain[]; // telephone mode
+  chainStep: number; // telephone mode: the step being played, 1-based, or 0
+  round: number; // 1-based
+  roundHistory: RoundResult[]; // finished rounds, oldest first
+  backupHostId?: string; // participant that takes over the room if the host drops
+}
+
+// How one player did in a finished round
+export interface RoundPlayerResult {
+  playerId: string;
+  name: string;
+  quizScore: number;
+  thumbsUp: number;
+  thumbsDown: number;
+  votePoints: number; // for thumbs or stars, category awards and the ranked-choice win
+  guessPoints: number; // for guessing sentences and for drawings others guessed
+  prompt?: string; // the sentence they drew
+}
+
+export interface RoundResult {
+  round: number;
+  players: RoundPlayerResult[];
 }
 
+// Timings and limits the host can change in the lobby. Durations are in seconds.
+export interface GameSettings {
+  quizDuration: number; // self-paced quiz
+  questionDuration: number; // classroom mode, per question
+  revealDuration: number; // classroom mode answer distribution screen, and each anonymous artist reveal
+  drawingDuration: number;
+  guessDuration: number; // telephone mode, describing a drawing
+  chainSteps: number; // telephone mode: turns after the sentence, capped by the player count
+  slideDuration: number; // each drawing is shown this long after its replay
+  replayDuration: number; // a replay takes this long at 1x - shorter drawings play in real time
+  minPlayers: number; // needed to start, not counting the teacher
+  canvasWidth: number;
+  canvasHeight: number;
+  unlockScale: number; // multiplies every tool and color unlock threshold
+  rounds: number; // sentence to leaderboard, this many times per game
+  guessSentences: boolean; // classic mode: everyone guesses each drawing's sentence before the slideshow
+  voting: VotingScheme;
+  categoryVoting: boolean; // after the slideshow, everyone picks a drawing for each award
+  rankedVoting: boolean; // after the slideshow, everyone ranks the drawings
+  finalVoteDuration: number; // time for the award and ranked-choice votes
+  anonymousVoting: boolean; // artists stay a secret until the votes on their drawing are in
+  galleryOrder: GalleryOrder;
+  slideAdvance: SlideAdvance;
+}
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  quizDuration: 90,
+  questionDuration: 20,
+  revealDuration: 5,
+  drawingDuration: 120,
+  guessDuration: 45,
+  chainSteps: 3,
+  slideDuration: 5,
+  replayDuration: 10,
+  minPlayers: 2,
+  canvasWidth: 600,
+  canvasHeight: 400,
+  unlockScale: 1,
+  rounds: 1,
+  guessSentences: false,
+  voting: 'thumbs',
+  categoryVoting: false,
+  rankedVoting: false,
+  finalVoteDuration: 60,
+  anonymousVoting: false,
+  galleryOrder: 'joined',
+  slideAdvance: 'timed',
+};
+
+export interface ModerationSettings {
+  filterWords: boolean; // turn away sentences and names that use blocked words
+  blockedWords: string[]; // on top of the built-in list
+  reviewSentences: boolean; // the teacher approves each sentence before it's used
+}
+
+export const DEFAULT_MODERATION: ModerationSettings = {
+  filterWords: true,
+  blockedWords: [],
+  reviewSentences: false,
+};
+
+// A removed player who isn't let back in, recognized by session or by name
+export interface BannedPlayer {
+  name: string;
+  tokens: string[]; // session keys, never the tokens themselves
+}
+
+// Who may join the room
+export interface RoomAccess {
+  password: string; // empty for none
+  locked: boolean; // no new players - those already in can still reconnect
+  maxPlayers: number; // not counting the teacher
+  banned: BannedPlayer[];
+  // A backup's copy: the room has a password it wasn't given, so nobody new gets in
+  passwordWithheld?: boolean;
+}
+
+export const MAX_PLAYERS = 30;
+export const ROOM_CODE_LENGTHS = [4, 6, 8];
+export const DEFAULT_ROOM_CODE_LENGTH = 6;
+
+export const DEFAULT_ROOM_ACCESS: RoomAccess = {
+  password: "",
+  locked: false,
+  maxPlayers: MAX_PLAYERS,
+  banned: [],
+};
+
 // Message types for PeerJS communication
 export type MessageType = 
   | 'player_joined'
   | 'player_left'
   | 'game_state_update'
+  | 'game_state_patch'
   | 'submit_sentence'
   | 'submit_quiz_answer'
   | 'submit_drawing'
+  | 'drawing_progress'
   | 'submit_reaction'
   | 'start_game'
   | 'start_quiz'
@@ -65,7 +352,19 @@ export type MessageType =
   | 'start_slideshow'
   | 'end_game'
   | 'update_sentence'
-  | 'request_sync';
+  | 'request_sync'
+  | 'replicate_state'
+  | 'host_handoff'
+  | 'quiz_answer_result'
+  | 'clock_ping'
+  | 'clock_pong'
+  | 'player_removed'
+  | 'submit_guess'
+  | 'submit_prompt_guess'
+  | 'submit_rating'
+  | 'submit_final_vote'
+  | 'team_actions'
+  | 'team_canvas';
 
 export interface GameMessage {
   type: MessageType;
@@ -80,10 +379,10 @@ export const BASE_TOOLS: DrawingTool[] = [
 
 // Tools unlocked based on quiz performance (in order of unlock)
 export const UNLOCKABLE_TOOLS: DrawingTool[] = [
-  { name: 'Eraser', icon: '🧹', color: '#ffffff', size: 20, type: 'eraser', unlockThreshold: 1 },
-  { name: 'Fill', icon: '🪣', color: '#000000', size: 0, type: 'fill', unlockThreshold: 2 },
-  { name: 'Brush', icon: '🖌️', color: '#000000', size: 12, type: 'brush', unlockThreshold: 3 },
-  { name: 'Fine Pen', icon: '🖊️', color: '#000000', size: 1, type: 'pen', unlockThreshold: 4 },
+  { name: 'Eraser', icon: '🧹', color: '#ffffff', size: 20, type: 'eraser', unlockThreshold: 100 },
+  { name: 'Fill', icon: '🪣', color: '#000000', size: 0, type: 'fill', unlockThreshold: 250 },
+  { name: 'Brush', icon: '🖌️', color: '#000000', size: 12, type: 'brush', unlockThreshold: 400 },
+  { name: 'Fine Pen', icon: '🖊️', color: '#000000', size: 1, type: 'pen', unlockThreshold: 550 },
 ];
 
 // Colors unlocked based on quiz performance
@@ -94,14 +393,35 @@ export interface UnlockableColor {
 }
 
 export const UNLOCKABLE_COLORS: UnlockableColor[] = [
-  { name: 'Red', color: '#ef4444', unlockThreshold: 5 },
-  { name: 'Blue', color: '#3b82f6', unlockThreshold: 6 },
-  { name: 'Green', color: '#22c55e', unlockThreshold: 7 },
-  { name: 'Yellow', color: '#eab308', unlockThreshold: 8 },
+  { name: 'Red', color: '#ef4444', unlockThreshold: 700 },
+  { name: 'Blue', color: '#3b82f6', unlockThreshold: 850 },
+  { name: 'Green', color: '#22c55e', unlockThreshold: 1000 },
+  { name: 'Yellow', color: '#eab308', unlockThreshold: 1150 },
 ];
 
-export function getUnlockedColors(quizScore: number): UnlockableColor[] {
-  return UNLOCKABLE_COLORS.filter((c) => quizScore >= c.unlockThreshold);
+// Thresholds are written for the default question set and scoring; scale them
+// so other banks and point values unlock the same share of tools, then by the
+// host's unlockScale
+export function scaleThreshold(
+  threshold: number,
+  questionCount: number,
+  scoring: ScoringModel = DEFAULT_SCORING_MODEL,
+  unlockScale = 1
+): number {
+  const questionScale = questionCount / QUIZ_QUESTIONS.length;
+  const pointScale = scoring.pointsPerCorrect / DEFAULT_SCORING_MODEL.pointsPerCorrect;
+  return Math.ceil(threshold * questionScale * pointScale * unlockScale);
+}
+
+export function getUnlockedColors(
+  quizScore: number,
+  questionCount: number,
+  scoring?: ScoringModel,
+  unlockScale?: number
+): UnlockableColor[] {
+  return UNLOCKABLE_COLORS.filter(
+    (c) => quizScore >= scaleThreshold(c.unlockThreshold, questionCount, scoring, unlockScale)
+  );
 }
 
 // Hardcoded quiz questions
@@ -156,30 +476,62 @@ export const QUIZ_QUESTIONS: QuizQuestion[] = [
   },
 ];
 
-export function getUnlockedTools(quizScore: number): DrawingTool[] {
+export const DEFAULT_QUESTION_BANK: QuestionBank = {
+  id: 'default',
+  name: 'General Trivia',
+  questions: QUIZ_QUESTIONS,
+};
+
+export function getUnlockedTools(
+  quizScore: number,
+  questionCount: number,
+  scoring?: ScoringModel,
+  unlockScale?: number
+): DrawingTool[] {
   const tools = [...BASE_TOOLS];
   for (const tool of UNLOCKABLE_TOOLS) {
-    if (quizScore >= tool.unlockThreshold) {
+    if (quizScore >= scaleThreshold(tool.unlockThreshold, questionCount, scoring, unlockScale)) {
       tools.push(tool);
     }
   }
   return tools;
 }
 
-export const QUIZ_DURATION = 90; // 1 minute 30 seconds
-export const DRAWING_DURATION = 120; // 2 minutes
+export const RECONNECT_GRACE_PERIOD = 60; // seconds a dropped player keeps their seat
 
 export function createInitialGameState(roomCode: string): GameState {
   return {
     phase: 'lobby',
     roomCode,
     players: [],
+    quizQuestions: QUIZ_QUESTIONS.map(toPublicQuestion),
+    answerKey: QUIZ_QUESTIONS.map((q) => q.correctIndex),
+    quizMode: 'self_paced',
+    gameMode: 'classic',
     currentQuestionIndex: 0,
+    questionRevealed: false,
     quizAnswers: {},
-    quizTimeRemaining: QUIZ_DURATION,
-    drawingTimeRemaining: DRAWING_DURATION,
+    quizAnswerTimes: {},
+    questionStartTimes: [],
+    scoringModel: DEFAULT_SCORING_MODEL,
+    settings: DEFAULT_GAME_SETTINGS,
+    moderation: DEFAULT_MODERATION,
+    access: DEFAULT_ROOM_ACCESS,
+    endsAt: null,
     currentSlideIndex: 0,
-    slideTimeRemaining: 5,
+    replay: null,
+    pausedAtLink: null,
     reactions: {},
+    slideOrder: [],
+    revealedDrawings: [],
+    ratings: {},
+    categoryVotes: {},
+    rankedBallots: {},
+    promptGuesses: {},
+    teams: [],
+    chains: [],
+    chainStep: 0,
+    round: 1,
+    roundHistory: [],
   };
 }
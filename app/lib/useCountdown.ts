@@ -0,0 +1,18 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Whole seconds left until a deadline on the host's clock
+export function useCountdown(endsAt: number | null, clockOffset: number): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (endsAt === null) return;
+    // Tick faster than once a second so the display never skips a number
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  if (endsAt === null) return 0;
+  return Math.max(0, Math.ceil((endsAt - (now + clockOffset)) / 1000));
+}
@@ -2,22 +2,177 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 import { GameNetwork, getNetwork, resetNetwork } from "./networking";
+import { RoomAddress, TransportKind } from "./transport";
+import { loadSelectedBank, saveSelectedBankId } from "./questionBanks";
+import { isAnswerOpen, splitAnswerKey } from "./quiz";
+import {
+  isSentenceApproved,
+  loadModerationSettings,
+  moderateSentence,
+  removePlayer,
+  saveModerationSettings,
+} from "./moderation";
+import { getAnswerResult, recordQuizAnswer, scorePlayers } from "./scoring";
+import { applyDrawingProgress, CanvasAction } from "./drawing";
+import {
+  getGalleryPlayers,
+  goToSlide,
+  isArtistRevealed,
+  isArtistSecret,
+  orderGallery,
+  reorderGallery,
+  revealArtist,
+  setSlideAdvance,
+  setSlidePaused,
+  setSlideSpeed,
+} from "./replay";
+import { banPlayer, getJoinRejection, REMOVAL_DELAY } from "./roomAccess";
+import { clearRound, finishGame, startNextRound } from "./rounds";
+import { recordPromptGuess, startSentenceGuessing } from "./promptGuessing";
+import {
+  advanceChains,
+  goToChainSlide,
+  nextChainStep,
+  recordGuess,
+  setChainSlideAdvance,
+  setChainSlidePaused,
+  startChains,
+} from "./telephone";
+import {
+  addTeamActions,
+  applyTeamCanvas,
+  assignTeamSentences,
+  collectTeamDrawings,
+  getTeamCanvasUpdate,
+  getTeamDrawing,
+  getTeamOf,
+  MIN_TEAMS,
+  recordDrawing,
+  SharedCanvas,
+  shuffleTeams,
+  TeamCanvas,
+} from "./teams";
+import { loadGameSettings, saveGameSettings } from "./settings";
+import { recordFinalVote, recordRating } from "./voting";
+import { StateDelta, StateSnapshot, StateSyncReceiver } from "./stateSync";
+import {
+  CLOCK_SYNC_INTERVAL,
+  CLOCK_SYNC_SAMPLES,
+  ClockPing,
+  ClockPong,
+  ClockSync,
+} from "./clockSync";
 import {
   createInitialGameState,
-  DRAWING_DURATION,
+  DEFAULT_ROOM_ACCESS,
+  DEFAULT_ROOM_CODE_LENGTH,
+  Drawing,
+  DrawingProgress,
+  GalleryOrder,
   GameMessage,
+  GameMode,
+  GameSettings,
   GameState,
+  ModerationSettings,
   Player,
-  QUIZ_DURATION,
-  QUIZ_QUESTIONS,
+  QuestionBank,
+  QuizAnswerResult,
+  QuizMode,
+  RECONNECT_GRACE_PERIOD,
+  RoomAccess,
+  ScoringModel,
+  SlideAdvance,
+  Team,
+  TeamCanvasUpdate,
 } from "./types";
+import {
+  clearSession,
+  getOrCreateSession,
+  getSessionKey,
+  loadSession,
+  PlayerSession,
+  reassignPlayerId,
+  saveSession,
+} from "./session";
+import {
+  createReplica,
+  HostReplica,
+  pickBackupHost,
+  prepareTakeover,
+  REPLICATION_INTERVAL,
+  restoreSecrets,
+  TAKEOVER_DELAY,
+} from "./hostMigration";
+
+const RECONNECT_INTERVAL = 3000; // ms between rejoin attempts after losing the host
+
+// Keep retrying a connection attempt until the reconnect grace period runs out
+function retryUntilGraceExpires(attempt: () => Promise<void>, onGiveUp: () => void) {
+  const deadline = Date.now() + RECONNECT_GRACE_PERIOD * 1000;
+  const retry = () => {
+    attempt().catch(() => {
+      if (Date.now() < deadline) {
+        setTimeout(retry, RECONNECT_INTERVAL);
+      } else {
+        onGiveUp();
+      }
+    });
+  };
+  retry();
+}
+
+function mergeQuizResults(
+  prev: Record<number, QuizAnswerResult>,
+  results: QuizAnswerResult[]
+): Record<number, QuizAnswerResult> {
+  const merged = { ...prev };
+  results.forEach((result) => {
+    merged[result.questionIndex] = result;
+  });
+  return merged;
+}
 
 export function useGameState() {
   const [gameState, setGameState] = useState<GameState | null>(null);
-  const [localPlayer, setLocalPlayer] = useState<Player | null>(null);
+  const [localPlayerId, setLocalPlayerId] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const [roomAddress, setRoomAddress] = useState<RoomAddress | null>(null);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  // Whether this peer runs the game logic - normally the teacher, but a
+  // participant can hold the room while the teacher is away
+  const [isAuthority, setIsAuthority] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // The host's verdicts on this player's quiz answers, by question index
+  const [quizResults, setQuizResults] = useState<Record<number, QuizAnswerResult>>({});
+  // Host clock minus this device's clock; 0 while this peer runs the room
+  const [clockOffset, setClockOffset] = useState(0);
+  // Host only: canvases still being drawn on, rebuilt from players' progress
+  const [liveDrawings, setLiveDrawings] = useState<Record<string, Drawing>>({});
+  // Team mode: the shared canvas as the host last sent it
+  const [teamCanvas, setTeamCanvas] = useState<SharedCanvas | null>(null);
   const networkRef = useRef<GameNetwork | null>(null);
+  const gameStateRef = useRef<GameState | null>(null);
+  // Host only: session token -> current peer ID of that player
+  const sessionsRef = useRef<Map<string, string>>(new Map());
+  // Host only: peers turned away at the door, whose messages are ignored
+  const refusedPeersRef = useRef<Set<string>>(new Set());
+  // Host only: team ID -> the team's shared canvas
+  const teamCanvasesRef = useRef<Map<string, TeamCanvas>>(new Map());
+  // Backup only: latest copy of the room from the host
+  const replicaRef = useRef<HostReplica | null>(null);
+  const takeOverRoomRef = useRef<(replica: HostReplica) => void>(() => {});
+  // The network this peer handed the room back on - nothing it gets after that counts
+  const handedOffRef = useRef<GameNetwork | null>(null);
+  const clockSyncRef = useRef(new ClockSync());
+  // Player only: rebuilds the host's state from snapshots and deltas
+  const syncRef = useRef(
+    new StateSyncReceiver(() => {
+      const network = networkRef.current;
+      network?.send({ type: "request_sync", payload: {}, senderId: network.playerId });
+    })
+  );
+
+  const localPlayer = gameState?.players.find((p) => p.id === localPlayerId) ?? null;
 
   // Initialize network
   useEffect(() => {
@@ -27,228 +182,704 @@ export function useGameState() {
     };
   }, []);
 
+  useEffect(() => {
+    gameStateRef.current = gameState;
+  }, [gameState]);
+
+  // Host only: tell a player how they did - directly if it's this peer's own answer
+  const sendQuizResults = useCallback(
+    (state: GameState, playerId: string, questionIndices: number[]) => {
+      const network = networkRef.current;
+      if (!network?.isHost || questionIndices.length === 0) return;
+
+      const results = questionIndices.map((index) => getAnswerResult(state, playerId, index));
+      if (playerId === network.playerId) {
+        setQuizResults((prev) => mergeQuizResults(prev, results));
+        return;
+      }
+      network.sendToPlayer(playerId, {
+        type: "quiz_answer_result",
+        payload: { results },
+        senderId: network.playerId,
+      });
+    },
+    []
+  );
+
+  // Host only: pass a teammate the shared canvas - directly if it's this peer's own
+  const sendTeamCanvas = useCallback((playerId: string, update: TeamCanvasUpdate) => {
+    const network = networkRef.current;
+    if (!network?.isHost) return;
+
+    if (playerId === network.playerId) {
+      setTeamCanvas((prev) => applyTeamCanvas(prev, update));
+      return;
+    }
+    network.sendToPlayer(playerId, {
+      type: "team_canvas",
+      payload: update,
+      senderId: network.playerId,
+    });
+  }, []);
+
+  // Host only: works a change out from the latest state and sends it to
+  // everyone. Done here rather than in a setGameState updater, which React may
+  // run more than once, so nothing goes out twice. Returns the new state, or
+  // null when nothing changed.
+  const updateHostState = useCallback((update: (prev: GameState) => GameState) => {
+    const network = networkRef.current;
+    const prev = gameStateRef.current;
+    if (!network?.isHost || network === handedOffRef.current || !prev) return null;
+
+    const newState = update(prev);
+    if (newState === prev) return null;
+    // Moved on now so a change before the next render builds on this one
+    gameStateRef.current = newState;
+    setGameState(newState);
+    network.broadcastGameState(newState);
+    return newState;
+  }, []);
+
+  // Host only: add a teammate's finished strokes to the team canvas and pass
+  // the new part round the team
+  const receiveTeamActions = useCallback(
+    (playerId: string, from: number, actions: CanvasAction[]) => {
+      const state = gameStateRef.current;
+      const team = state && getTeamOf(state, playerId);
+      if (state?.phase !== "drawing" || !team) return;
+
+      const previous = teamCanvasesRef.current.get(team.id);
+      const canvas = addTeamActions(previous, playerId, from, actions, Date.now());
+      teamCanvasesRef.current.set(team.id, canvas);
+      team.playerIds.forEach((id) => {
+        sendTeamCanvas(id, getTeamCanvasUpdate(canvas, id, state.settings, previous?.actions.length));
+      });
+      setLiveDrawings((prev) => ({ ...prev, [team.id]: getTeamDrawing(canvas, state.settings) }));
+    },
+    [sendTeamCanvas]
+  );
+
+  // Leave the room for good, e.g. when it can't be reached or the host removed us
+  const abandonRoom = useCallback((reason = "Lost connection to the room.") => {
+    clearSession();
+    resetNetwork();
+    setGameState(null);
+    setLocalPlayerId(null);
+    setIsConnected(false);
+    setRoomAddress(null);
+    setIsReconnecting(false);
+    setIsAuthority(false);
+    setError(reason);
+  }, []);
+
+  // Host only: tell a peer why it's being turned away, then cut it off
+  // Nothing more goes either way while the goodbye reaches them
+  const removeFromRoom = useCallback((peerId: string, reason: string) => {
+    const network = networkRef.current;
+    if (!network?.isHost) return;
+
+    refusedPeersRef.current.add(peerId);
+    network.refusePeer(peerId);
+    network.sendToPlayer(peerId, {
+      type: "player_removed",
+      payload: { reason },
+      senderId: network.playerId,
+    });
+    setTimeout(() => network.disconnectPlayer(peerId), REMOVAL_DELAY);
+  }, []);
+
   const handleMessage = useCallback(
     (message: GameMessage) => {
       const network = networkRef.current;
-      if (!network) return;
+      if (!network || network === handedOffRef.current) return;
 
       console.log("Received message:", message.type, message.payload);
 
       if (network.isHost) {
-        // Host handles all game logic
-        setGameState((prevState) => {
-          if (!prevState) return prevState;
-          let newState = { ...prevState };
-
-          switch (message.type) {
-            case "player_joined": {
-              const { playerName } = message.payload as { playerName: string };
-              const newPlayer: Player = {
-                id: message.senderId,
-                name: playerName,
-                isHost: false,
-                quizScore: 0,
-                thumbsUp: 0,
-                thumbsDown: 0,
-              };
-              newState.players = [...prevState.players, newPlayer];
-              break;
-            }
+        if (refusedPeersRef.current.has(message.senderId)) return;
+
+        if (message.type === "clock_ping") {
+          const { sentAt } = message.payload as ClockPing;
+          const pong: ClockPong = { sentAt, hostTime: Date.now() };
+          network.sendToPlayer(message.senderId, {
+            type: "clock_pong",
+            payload: pong,
+            senderId: network.playerId,
+          });
+          return;
+        }
 
-            case "submit_sentence": {
-              const { sentence } = message.payload as { sentence: string };
-              newState.players = prevState.players.map((p) =>
-                p.id === message.senderId ? { ...p, sentence } : p
-              );
-              break;
-            }
+        // Until a peer has joined, all it can do is say who it is
+        const isPlayer = !!gameStateRef.current?.players.some((p) => p.id === message.senderId);
+        if (!isPlayer && message.type !== "player_joined") return;
 
-            case "submit_quiz_answer": {
-              const { questionIndex, answerIndex } = message.payload as {
-                questionIndex: number;
-                answerIndex: number;
-              };
-              const playerAnswers = prevState.quizAnswers[message.senderId] || [];
-              playerAnswers[questionIndex] = answerIndex;
-              newState.quizAnswers = {
-                ...prevState.quizAnswers,
-                [message.senderId]: playerAnswers,
-              };
-
-              // Calculate score
-              let score = 0;
-              playerAnswers.forEach((answer, idx) => {
-                if (answer === QUIZ_QUESTIONS[idx]?.correctIndex) {
-                  score++;
-                }
-              });
-              newState.players = prevState.players.map((p) =>
-                p.id === message.senderId ? { ...p, quizScore: score } : p
-              );
-              break;
-            }
+        // Progress only feeds the teacher's live view, it isn't part of the game state
+        if (message.type === "drawing_progress") {
+          if (gameStateRef.current?.phase !== "drawing") return;
+          const progress = message.payload as DrawingProgress;
+          setLiveDrawings((prev) => ({
+            ...prev,
+            [message.senderId]: applyDrawingProgress(prev[message.senderId], progress),
+          }));
+          return;
+        }
 
-            case "submit_drawing": {
-              const { drawingDataUrl } = message.payload as {
-                drawingDataUrl: string;
-              };
-              newState.players = prevState.players.map((p) =>
-                p.id === message.senderId ? { ...p, drawingDataUrl } : p
-              );
-              break;
-            }
+        // Team strokes go to the shared canvas, which lives outside the game state
+        if (message.type === "team_actions") {
+          const { from, actions } = message.payload as { from: number; actions: CanvasAction[] };
+          receiveTeamActions(message.senderId, from, actions);
+          return;
+        }
 
-            case "submit_reaction": {
-              const { targetPlayerId, reactionType } = message.payload as {
-                targetPlayerId: string;
-                reactionType: "thumbsUp" | "thumbsDown";
-              };
-              const reactions = prevState.reactions[targetPlayerId] || {
-                thumbsUp: [],
-                thumbsDown: [],
-              };
-
-              // Remove previous reaction from this player
-              reactions.thumbsUp = reactions.thumbsUp.filter(
-                (id) => id !== message.senderId
-              );
-              reactions.thumbsDown = reactions.thumbsDown.filter(
-                (id) => id !== message.senderId
-              );
-
-              // Add new reaction
-              reactions[reactionType].push(message.senderId);
-
-              newState.reactions = {
-                ...prevState.reactions,
-                [targetPlayerId]: reactions,
-              };
-
-              // Update player thumbs counts
-              newState.players = prevState.players.map((p) => {
-                if (p.id === targetPlayerId) {
-                  const r = newState.reactions[p.id] || {
-                    thumbsUp: [],
-                    thumbsDown: [],
-                  };
-                  return {
-                    ...p,
-                    thumbsUp: r.thumbsUp.length,
-                    thumbsDown: r.thumbsDown.length,
-                  };
-                }
-                return p;
-              });
+        // Look up returning sessions before the state changes, so it only happens once
+        let resumedFromId: string | undefined;
+        if (message.type === "player_joined") {
+          const { playerName, sessionToken } = message.payload as {
+            playerName: string;
+            sessionToken?: string;
+          };
+          const state = gameStateRef.current;
+          const sessionKey = sessionToken ? getSessionKey(sessionToken) : undefined;
+          if (sessionKey) {
+            resumedFromId = sessionsRef.current.get(sessionKey);
+          }
+
+          // Players taking back their own seat skip the checks for newcomers
+          const resumesSeat = !!state?.players.some((p) => p.id === resumedFromId);
+          const rejection = state && !resumesSeat
+            ? getJoinRejection(state, playerName, sessionKey)
+            : null;
+          if (rejection) {
+            removeFromRoom(message.senderId, rejection);
+            return;
+          }
+          if (sessionKey) {
+            sessionsRef.current.set(sessionKey, message.senderId);
+          }
+
+          // A returning teammate gets the whole shared canvas again
+          const team = state && resumesSeat && getTeamOf(state, resumedFromId!);
+          const canvas = team && teamCanvasesRef.current.get(team.id);
+          if (state?.phase === "drawing" && canvas) {
+            const update = getTeamCanvasUpdate(canvas, resumedFromId!, state.settings);
+            sendTeamCanvas(message.senderId, update);
+          }
+        }
+
+        // Answers are timed by when they reach the host, not the sender's clock
+        const receivedAt = Date.now();
+
+        // Host handles all game logic, working from the latest state
+        const prevState = gameStateRef.current;
+        if (!prevState) return;
+        let newState = { ...prevState };
+        let answered: number[] = [];
+
+        switch (message.type) {
+          case "player_joined": {
+            const { playerName } = message.payload as { playerName: string };
+
+            // A known session coming back gets its old seat, answers and votes
+            if (resumedFromId && prevState.players.some((p) => p.id === resumedFromId)) {
+              newState = reassignPlayerId(prevState, resumedFromId, message.senderId);
               break;
             }
 
-            case "request_sync": {
-              // Send current state to the requesting player
-              network.sendToPlayer(message.senderId, {
-                type: "game_state_update",
-                payload: prevState,
-                senderId: network.playerId,
-              });
-              return prevState;
-            }
+            const newPlayer: Player = {
+              id: message.senderId,
+              name: playerName,
+              isHost: false,
+              quizScore: 0,
+              quizCorrect: 0,
+              thumbsUp: 0,
+              thumbsDown: 0,
+            };
+            newState.players = [...prevState.players, newPlayer];
+            break;
           }
 
-          // Broadcast updated state to all players
-          network.broadcastGameState(newState);
-          return newState;
-        });
+          case "submit_sentence": {
+            const { sentence } = message.payload as { sentence: string };
+            newState.players = prevState.players.map((p) =>
+              p.id === message.senderId ? moderateSentence(p, sentence, prevState.moderation) : p
+            );
+            break;
+          }
+
+          case "submit_quiz_answer": {
+            const { questionIndex, answerIndex } = message.payload as {
+              questionIndex: number;
+              answerIndex: number;
+            };
+            if (!isAnswerOpen(prevState, message.senderId, questionIndex)) return;
+            newState = recordQuizAnswer(
+              prevState,
+              message.senderId,
+              questionIndex,
+              answerIndex,
+              receivedAt
+            );
+            if (newState === prevState) return;
+            answered = [questionIndex];
+            break;
+          }
+
+          case "submit_drawing": {
+            const { drawing } = message.payload as { drawing: Drawing };
+            newState = recordDrawing(prevState, message.senderId, drawing, teamCanvasesRef.current);
+            break;
+          }
+
+          case "submit_guess": {
+            const { guess } = message.payload as { guess: string };
+            newState = recordGuess(prevState, message.senderId, guess);
+            break;
+          }
+
+          case "submit_prompt_guess": {
+            const { drawingId, guess } = message.payload as { drawingId: string; guess: string };
+            newState = recordPromptGuess(prevState, message.senderId, drawingId, guess);
+            break;
+          }
+
+          case "submit_rating": {
+            const { drawingId, stars } = message.payload as { drawingId: string; stars: number };
+            newState = recordRating(prevState, message.senderId, drawingId, stars);
+            break;
+          }
+
+          case "submit_final_vote": {
+            const { picks, ranking } = message.payload as {
+              picks: Record<string, string>;
+              ranking: string[];
+            };
+            newState = recordFinalVote(prevState, message.senderId, picks, ranking);
+            break;
+          }
+
+          case "submit_reaction": {
+            const { drawingId, reactionType } = message.payload as {
+              drawingId: string;
+              reactionType: "thumbsUp" | "thumbsDown";
+            };
+            // The vote closes once an anonymous artist is revealed
+            if (isArtistRevealed(prevState, drawingId)) return;
+
+            // Copied, since the previous state may already have gone out to players
+            const reactions = {
+              ...(prevState.reactions[drawingId] || { thumbsUp: [], thumbsDown: [] }),
+            };
+
+            // Remove previous reaction from this player
+            reactions.thumbsUp = reactions.thumbsUp.filter(
+              (id) => id !== message.senderId
+            );
+            reactions.thumbsDown = reactions.thumbsDown.filter(
+              (id) => id !== message.senderId
+            );
+
+            // Add new reaction
+            reactions[reactionType].push(message.senderId);
+
+            newState.reactions = {
+              ...prevState.reactions,
+              [drawingId]: reactions,
+            };
+
+            // Update the artist's thumbs counts (every teammate's, in team mode)
+            newState.players = prevState.players.map((p) => {
+              if (p.drawingId === drawingId) {
+                const r = newState.reactions[drawingId] || {
+                  thumbsUp: [],
+                  thumbsDown: [],
+                };
+                return {
+                  ...p,
+                  thumbsUp: r.thumbsUp.length,
+                  thumbsDown: r.thumbsDown.length,
+                };
+              }
+              return p;
+            });
+            break;
+          }
+
+          case "request_sync": {
+            // Send current state and their answer results to the requesting player
+            network.sendGameState(message.senderId, prevState);
+            const answeredSoFar = (prevState.quizAnswers[message.senderId] || [])
+              .map((answer, index) => (answer === undefined || answer === null ? -1 : index))
+              .filter((index) => index >= 0);
+            sendQuizResults(prevState, message.senderId, answeredSoFar);
+            return;
+          }
+        }
+
+        // Broadcast updated state to all players
+        updateHostState(() => newState);
+        sendQuizResults(newState, message.senderId, answered);
       } else {
+        if (message.type === "replicate_state") {
+          replicaRef.current = message.payload as HostReplica;
+          return;
+        }
+
+        if (message.type === "host_handoff") {
+          takeOverRoomRef.current(message.payload as HostReplica);
+          return;
+        }
+
+        if (message.type === "player_removed") {
+          const { reason } = message.payload as { reason: string };
+          abandonRoom(reason);
+          return;
+        }
+
+        if (message.type === "quiz_answer_result") {
+          const { results } = message.payload as { results: QuizAnswerResult[] };
+          setQuizResults((prev) => mergeQuizResults(prev, results));
+          return;
+        }
+
+        if (message.type === "team_canvas") {
+          const update = message.payload as TeamCanvasUpdate;
+          setTeamCanvas((prev) => applyTeamCanvas(prev, update));
+          return;
+        }
+
         // Player receives state updates from host
+        let newState: GameState | null = null;
         if (message.type === "game_state_update") {
-          const newState = message.payload as GameState;
-          setGameState(newState);
+          newState = syncRef.current.receiveSnapshot(message.payload as StateSnapshot);
+        } else if (message.type === "game_state_patch") {
+          newState = syncRef.current.receiveDelta(message.payload as StateDelta);
+        } else if (message.type === "clock_pong") {
+          setClockOffset(clockSyncRef.current.addSample(message.payload as ClockPong, Date.now()));
+        }
 
-          // Update local player
-          const player = newState.players.find(
-            (p) => p.id === network.playerId
-          );
-          if (player) {
-            setLocalPlayer(player);
+        if (newState) {
+          setGameState(newState);
+          if (newState.phase === "lobby") {
+            setQuizResults({});
+          }
+          if (newState.phase !== "drawing") {
+            setTeamCanvas(null);
           }
         }
       }
     },
-    []
+    [sendQuizResults, sendTeamCanvas, receiveTeamActions, abandonRoom, removeFromRoom, updateHostState]
+  );
+
+  // Keep a dropped player's seat for the grace period so they can resume
+  const scheduleRemoval = useCallback((playerId: string, disconnectedAt: number) => {
+    setTimeout(() => {
+      const network = networkRef.current;
+      if (!network?.isHost) return;
+
+      updateHostState((prev) => {
+        const player = prev.players.find((p) => p.id === playerId);
+        // The teacher's seat is never given away - they get the room back on return
+        if (!player || player.isHost || player.disconnectedAt !== disconnectedAt) {
+          return prev;
+        }
+
+        sessionsRef.current.forEach((id, token) => {
+          if (id === playerId) sessionsRef.current.delete(token);
+        });
+        const newState = {
+          ...prev,
+          players: prev.players.filter((p) => p.id !== playerId),
+        };
+        return newState;
+      });
+    }, disconnectedAt + RECONNECT_GRACE_PERIOD * 1000 - Date.now());
+  }, [updateHostState]);
+
+  const handleDisconnection = useCallback(
+    (playerId: string) => {
+      const network = networkRef.current;
+      if (!network) return;
+      if (refusedPeersRef.current.delete(playerId)) return;
+
+      const disconnectedAt = Date.now();
+      updateHostState((prev) => {
+        return {
+          ...prev,
+          players: prev.players.map((p) =>
+            p.id === playerId ? { ...p, disconnectedAt } : p
+          ),
+        };
+      });
+      scheduleRemoval(playerId, disconnectedAt);
+    },
+    [scheduleRemoval, updateHostState]
   );
 
-  const createRoom = useCallback(async (hostName: string) => {
+  const attachHostHandlers = useCallback(
+    (network: GameNetwork) => {
+      network.onMessage(handleMessage);
+
+      // The password travels with the connection, so a wrong one never gets a
+      // seat. Anyone already in the room (the teacher included) can come back.
+      network.onConnection((playerId, metadata) => {
+        console.log("Player connected:", playerId);
+        const password = gameStateRef.current?.access?.password;
+        const returning = !!metadata && sessionsRef.current.has(getSessionKey(metadata.sessionToken));
+        if (password && !returning && metadata?.password !== password) {
+          removeFromRoom(playerId, "Wrong password for this room.");
+        }
+      });
+
+      network.onDisconnection(handleDisconnection);
+    },
+    [handleMessage, handleDisconnection, removeFromRoom]
+  );
+
+  const createRoom = useCallback(async (
+    hostName: string,
+    transport: TransportKind = "peerjs",
+    codeLength: number = DEFAULT_ROOM_CODE_LENGTH
+  ) => {
     try {
+      clearSession();
       resetNetwork();
-      const network = getNetwork();
+      const network = getNetwork(transport);
       networkRef.current = network;
 
-      const roomCode = await network.createRoom();
+      const roomCode = await network.createRoom(undefined, undefined, codeLength);
 
       const host: Player = {
         id: network.playerId,
         name: hostName,
         isHost: true,
         quizScore: 0,
+        quizCorrect: 0,
         thumbsUp: 0,
         thumbsDown: 0,
       };
 
       const initialState = createInitialGameState(roomCode);
       initialState.players = [host];
+      Object.assign(initialState, splitAnswerKey(loadSelectedBank().questions));
+      initialState.settings = loadGameSettings();
+      initialState.moderation = loadModerationSettings();
+
+      // The teacher gets a session too, so a refreshed tab can reclaim the room
+      const session = getOrCreateSession(roomCode, hostName, transport);
+      saveSession(session);
+      sessionsRef.current = new Map([[getSessionKey(session.token), host.id]]);
 
       setGameState(initialState);
-      setLocalPlayer(host);
+      setLocalPlayerId(host.id);
+      clockSyncRef.current.reset();
+      setClockOffset(0);
       setIsConnected(true);
+      setRoomAddress(network.getAddress());
+      setIsAuthority(true);
 
-      network.onMessage(handleMessage);
-
-      network.onConnection((playerId) => {
-        console.log("Player connected:", playerId);
-      });
-
-      network.onDisconnection((playerId) => {
-        setGameState((prev) => {
-          if (!prev) return prev;
-          const newState = {
-            ...prev,
-            players: prev.players.filter((p) => p.id !== playerId),
-          };
-          network.broadcastGameState(newState);
-          return newState;
-        });
-      });
+      attachHostHandlers(network);
 
       return roomCode;
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to create room");
       throw err;
     }
-  }, [handleMessage]);
-
-  const joinRoom = useCallback(
-    async (roomCode: string, playerName: string) => {
-      try {
+  }, [attachHostHandlers]);
+
+  // Claim the room's address and carry on from the replicated state
+  const takeOverRoom = useCallback(
+    async (replica: HostReplica) => {
+      const playerId = networkRef.current?.playerId;
+      const transport = networkRef.current?.transportKind;
+      if (!playerId) return;
+
+      setIsReconnecting(true);
+      const deadline = Date.now() + RECONNECT_GRACE_PERIOD * 1000;
+      let network = getNetwork(transport);
+      // The old host's address can take a while to be released
+      for (;;) {
         resetNetwork();
-        const network = getNetwork();
+        network = getNetwork(transport);
         networkRef.current = network;
+        try {
+          await network.createRoom(replica.state.roomCode, playerId);
+          break;
+        } catch {
+          if (Date.now() > deadline) {
+            abandonRoom();
+            return;
+          }
+          await new Promise((resolve) => setTimeout(resolve, RECONNECT_INTERVAL));
+        }
+      }
 
-        await network.joinRoom(roomCode, playerName);
-        setIsConnected(true);
+      // The room's deadlines move onto this peer's clock along with it
+      const takenOver = prepareTakeover(replica, playerId, clockSyncRef.current.offset);
+      const teacher = takenOver.players.some((p) => p.id === playerId && p.isHost);
+      const state = teacher
+        ? restoreSecrets(takenOver, {
+            questions: loadSelectedBank().questions,
+            moderation: loadModerationSettings(),
+            password: loadSession()?.password,
+          })
+        : takenOver;
+      clockSyncRef.current.reset();
+      setClockOffset(0);
+      sessionsRef.current = new Map(Object.entries(replica.sessions));
+      replicaRef.current = null;
+      state.players.forEach((p) => {
+        if (p.disconnectedAt) scheduleRemoval(p.id, p.disconnectedAt);
+      });
 
-        network.onMessage(handleMessage);
+      attachHostHandlers(network);
+      setGameState(state);
+      setLocalPlayerId(playerId);
+      setRoomAddress(network.getAddress());
+      setIsAuthority(true);
+      setIsReconnecting(false);
+    },
+    [abandonRoom, attachHostHandlers, scheduleRemoval]
+  );
 
-        // Request current state
-        network.send({
-          type: "request_sync",
-          payload: {},
-          senderId: network.playerId,
+  useEffect(() => {
+    takeOverRoomRef.current = takeOverRoom;
+  }, [takeOverRoom]);
+
+  const connectAsPlayer = useCallback(
+    async (session: PlayerSession) => {
+      resetNetwork();
+      const network = getNetwork(session.transport);
+      networkRef.current = network;
+
+      await network.joinRoom(session.roomCode, session.playerName, session.token, session.password);
+      saveSession(session);
+      setLocalPlayerId(network.playerId);
+      setIsConnected(true);
+      setRoomAddress(network.getAddress());
+      setIsReconnecting(false);
+
+      network.onMessage(handleMessage);
+
+      // Work out the clock difference to this host before trusting its deadlines
+      clockSyncRef.current.reset();
+      for (let i = 0; i < CLOCK_SYNC_SAMPLES; i++) {
+        setTimeout(() => {
+          const ping: ClockPing = { sentAt: Date.now() };
+          network.send({ type: "clock_ping", payload: ping, senderId: network.playerId });
+        }, i * CLOCK_SYNC_INTERVAL);
+      }
+
+      network.onDisconnection(() => {
+        // The designated backup picks up the room; everyone else reconnects to it
+        const replica = replicaRef.current;
+        if (replica && gameStateRef.current?.backupHostId === network.playerId) {
+          setTimeout(() => takeOverRoom(replica), TAKEOVER_DELAY);
+          return;
+        }
+
+        setIsReconnecting(true);
+        setTimeout(() => {
+          retryUntilGraceExpires(() => connectAsPlayer(session), abandonRoom);
+        }, RECONNECT_INTERVAL);
+      });
+
+      // Request current state
+      network.send({
+        type: "request_sync",
+        payload: {},
+        senderId: network.playerId,
+      });
+    },
+    [handleMessage, takeOverRoom, abandonRoom]
+  );
+
+  // Resume a saved session after a reload
+  useEffect(() => {
+    const session = loadSession();
+    if (!session) return;
+    retryUntilGraceExpires(() => connectAsPlayer(session), clearSession);
+  }, [connectAsPlayer]);
+
+  // Acting host hands the room back once the teacher has reconnected
+  const handOffHost = useCallback(
+    (state: GameState, teacherId: string) => {
+      const network = networkRef.current;
+      if (!network?.isHost) return;
+
+      const replica = createReplica({ ...state, backupHostId: undefined }, sessionsRef.current);
+      // Clear the backup first so nobody races the teacher for the room
+      network.broadcastGameState(replica.state);
+      network.sendToPlayer(teacherId, {
+        type: "host_handoff",
+        payload: replica,
+        senderId: network.playerId,
+      });
+      handedOffRef.current = network;
+      setIsAuthority(false);
+
+      // Give the handoff time to arrive before releasing the room's address
+      const session = loadSession();
+      setTimeout(() => {
+        if (session) {
+          retryUntilGraceExpires(() => connectAsPlayer(session), abandonRoom);
+        }
+      }, TAKEOVER_DELAY);
+    },
+    [connectAsPlayer, abandonRoom]
+  );
+
+  useEffect(() => {
+    if (!isAuthority || !gameState || localPlayer?.isHost) return;
+    const teacher = gameState.players.find((p) => p.isHost && !p.disconnectedAt);
+    if (teacher) {
+      handOffHost(gameState, teacher.id);
+    }
+  }, [isAuthority, gameState, localPlayer, handOffHost]);
+
+  // Keep the backup's copy of the room fresh so it can take over at any moment
+  useEffect(() => {
+    if (!isAuthority) return;
+
+    const interval = setInterval(() => {
+      const network = networkRef.current;
+      const state = gameStateRef.current;
+      if (!network?.isHost || !state) return;
+
+      const backupHostId = pickBackupHost(state, network.playerId);
+      if (backupHostId !== state.backupHostId) {
+        updateHostState((prev) => {
+          return { ...prev, backupHostId };
         });
+      }
+      if (!backupHostId) return;
+
+      const replica = createReplica({ ...state, backupHostId }, sessionsRef.current);
+      network.sendToPlayer(backupHostId, {
+        type: "replicate_state",
+        payload: replica,
+        senderId: network.playerId,
+      });
+    }, REPLICATION_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [isAuthority, updateHostState]);
+
+  const joinRoom = useCallback(
+    async (
+      roomCode: string,
+      playerName: string,
+      transport: TransportKind = "peerjs",
+      password?: string
+    ) => {
+      try {
+        await connectAsPlayer(getOrCreateSession(roomCode, playerName, transport, password));
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to join room");
         throw err;
       }
     },
-    [handleMessage]
+    [connectAsPlayer]
   );
 
   const submitSentence = useCallback((sentence: string) => {
@@ -256,18 +887,14 @@ export function useGameState() {
     if (!network) return;
 
     if (network.isHost) {
-      setGameState((prev) => {
-        if (!prev) return prev;
-        const newState = {
+      updateHostState((prev) => {
+        return {
           ...prev,
           players: prev.players.map((p) =>
-            p.id === network.playerId ? { ...p, sentence } : p
+            p.id === network.playerId ? moderateSentence(p, sentence, prev.moderation) : p
           ),
         };
-        network.broadcastGameState(newState);
-        return newState;
       });
-      setLocalPlayer((prev) => (prev ? { ...prev, sentence } : prev));
     } else {
       network.send({
         type: "submit_sentence",
@@ -275,7 +902,7 @@ export function useGameState() {
         senderId: network.playerId,
       });
     }
-  }, []);
+  }, [updateHostState]);
 
   const submitQuizAnswer = useCallback(
     (questionIndex: number, answerIndex: number) => {
@@ -283,43 +910,11 @@ export function useGameState() {
       if (!network) return;
 
       if (network.isHost) {
-        setGameState((prev) => {
-          if (!prev) return prev;
-          const playerAnswers = prev.quizAnswers[network.playerId] || [];
-          playerAnswers[questionIndex] = answerIndex;
-
-          let score = 0;
-          playerAnswers.forEach((answer, idx) => {
-            if (answer === QUIZ_QUESTIONS[idx]?.correctIndex) {
-              score++;
-            }
-          });
-
-          const newState = {
-            ...prev,
-            quizAnswers: {
-              ...prev.quizAnswers,
-              [network.playerId]: playerAnswers,
-            },
-            players: prev.players.map((p) =>
-              p.id === network.playerId ? { ...p, quizScore: score } : p
-            ),
-          };
-          network.broadcastGameState(newState);
-          return newState;
-        });
-        setLocalPlayer((prev) => {
-          if (!prev) return prev;
-          const answers = gameState?.quizAnswers[network.playerId] || [];
-          answers[questionIndex] = answerIndex;
-          let score = 0;
-          answers.forEach((answer, idx) => {
-            if (answer === QUIZ_QUESTIONS[idx]?.correctIndex) {
-              score++;
-            }
-          });
-          return { ...prev, quizScore: score };
+        const newState = updateHostState((prev) => {
+          if (!isAnswerOpen(prev, network.playerId, questionIndex)) return prev;
+          return recordQuizAnswer(prev, network.playerId, questionIndex, answerIndex, Date.now());
         });
+        if (newState) sendQuizResults(newState, network.playerId, [questionIndex]);
       } else {
         network.send({
           type: "submit_quiz_answer",
@@ -328,46 +923,90 @@ export function useGameState() {
         });
       }
     },
-    [gameState]
+    [updateHostState, sendQuizResults]
   );
 
-  const submitDrawing = useCallback((drawingDataUrl: string) => {
+  const submitDrawing = useCallback((drawing: Drawing) => {
     const network = networkRef.current;
     if (!network) return;
 
     if (network.isHost) {
-      setGameState((prev) => {
-        if (!prev) return prev;
-        const newState = {
-          ...prev,
-          players: prev.players.map((p) =>
-            p.id === network.playerId ? { ...p, drawingDataUrl } : p
-          ),
-        };
-        network.broadcastGameState(newState);
-        return newState;
+      updateHostState((prev) => {
+        return recordDrawing(prev, network.playerId, drawing, teamCanvasesRef.current);
       });
-      setLocalPlayer((prev) => (prev ? { ...prev, drawingDataUrl } : prev));
     } else {
       network.send({
         type: "submit_drawing",
-        payload: { drawingDataUrl },
+        payload: { drawing },
         senderId: network.playerId,
       });
     }
+  }, [updateHostState]);
+
+  // Only players describe drawings - the teacher has none assigned
+  const submitGuess = useCallback((guess: string) => {
+    const network = networkRef.current;
+    if (!network || network.isHost) return;
+
+    network.send({
+      type: "submit_guess",
+      payload: { guess },
+      senderId: network.playerId,
+    });
   }, []);
 
+  const submitPromptGuess = useCallback((drawingId: string, guess: string) => {
+    const network = networkRef.current;
+    if (!network || network.isHost) return;
+
+    network.send({
+      type: "submit_prompt_guess",
+      payload: { drawingId, guess },
+      senderId: network.playerId,
+    });
+  }, []);
+
+  const sendDrawingProgress = useCallback((progress: DrawingProgress) => {
+    const network = networkRef.current;
+    if (!network || network.isHost) return;
+
+    network.send({
+      type: "drawing_progress",
+      payload: progress,
+      senderId: network.playerId,
+    });
+  }, []);
+
+  // Team mode: finished strokes for the shared canvas - `from` is how many of
+  // this player's own went before them
+  const sendTeamActions = useCallback(
+    (from: number, actions: CanvasAction[]) => {
+      const network = networkRef.current;
+      if (!network) return;
+
+      if (network.isHost) {
+        receiveTeamActions(network.playerId, from, actions);
+      } else {
+        network.send({
+          type: "team_actions",
+          payload: { from, actions },
+          senderId: network.playerId,
+        });
+      }
+    },
+    [receiveTeamActions]
+  );
+
   const submitReaction = useCallback(
-    (targetPlayerId: string, reactionType: "thumbsUp" | "thumbsDown") => {
+    (drawingId: string, reactionType: "thumbsUp" | "thumbsDown") => {
       const network = networkRef.current;
       if (!network) return;
 
       if (network.isHost) {
-        setGameState((prev) => {
-          if (!prev) return prev;
-          const reactions = prev.reactions[targetPlayerId] || {
-            thumbsUp: [],
-            thumbsDown: [],
+        updateHostState((prev) => {
+          if (isArtistRevealed(prev, drawingId)) return prev;
+          const reactions = {
+            ...(prev.reactions[drawingId] || { thumbsUp: [], thumbsDown: [] }),
           };
 
           // Remove previous reaction from this player
@@ -383,15 +1022,15 @@ export function useGameState() {
 
           const newReactions = {
             ...prev.reactions,
-            [targetPlayerId]: reactions,
+            [drawingId]: reactions,
           };
 
-          const newState = {
+          return {
             ...prev,
             reactions: newReactions,
             players: prev.players.map((p) => {
-              if (p.id === targetPlayerId) {
-                const r = newReactions[p.id] || {
+              if (p.drawingId === drawingId) {
+                const r = newReactions[drawingId] || {
                   thumbsUp: [],
                   thumbsDown: [],
                 };
@@ -404,284 +1043,570 @@ export function useGameState() {
               return p;
             }),
           };
-          network.broadcastGameState(newState);
-          return newState;
         });
       } else {
         network.send({
           type: "submit_reaction",
-          payload: { targetPlayerId, reactionType },
+          payload: { drawingId, reactionType },
           senderId: network.playerId,
         });
       }
     },
-    []
+    [updateHostState]
   );
 
-  // Host-only actions
-  const startSentenceSubmission = useCallback(() => {
+  // Only players vote - the teacher has no drawing to be fair to
+  const submitRating = useCallback((drawingId: string, stars: number) => {
     const network = networkRef.current;
-    if (!network?.isHost || !gameState) return;
+    if (!network || network.isHost) return;
+
+    network.send({
+      type: "submit_rating",
+      payload: { drawingId, stars },
+      senderId: network.playerId,
+    });
+  }, []);
 
-    const newState: GameState = {
-      ...gameState,
+  const submitFinalVote = useCallback((picks: Record<string, string>, ranking: string[]) => {
+    const network = networkRef.current;
+    if (!network || network.isHost) return;
+
+    network.send({
+      type: "submit_final_vote",
+      payload: { picks, ranking },
+      senderId: network.playerId,
+    });
+  }, []);
+
+  // Host-only actions
+  const startSentenceSubmission = useCallback(() => {
+    // Latecomers are kept out once the game is under way; the teacher can reopen the room
+    updateHostState((prev) => ({
+      ...prev,
       phase: "sentence_submission",
-    };
-    setGameState(newState);
-    network.broadcastGameState(newState);
-  }, [gameState]);
+      access: { ...(prev.access ?? DEFAULT_ROOM_ACCESS), locked: true },
+    }));
+  }, [updateHostState]);
 
   const updatePlayerSentence = useCallback(
     (playerId: string, sentence: string) => {
-      const network = networkRef.current;
-      if (!network?.isHost || !gameState) return;
+      // The teacher's own wording doesn't need approving
+      updateHostState((prev) => ({
+        ...prev,
+        players: prev.players.map((p) =>
+          p.id === playerId ? { ...p, sentence, sentenceStatus: "approved" } : p
+        ),
+      }));
+    },
+    [updateHostState]
+  );
 
-      const newState: GameState = {
-        ...gameState,
-        players: gameState.players.map((p) =>
-          p.id === playerId ? { ...p, sentence } : p
+  const reviewSentence = useCallback(
+    (playerId: string, approved: boolean) => {
+      // A rejected player gets the form back to write something else
+      updateHostState((prev) => ({
+        ...prev,
+        players: prev.players.map((p) =>
+          p.id !== playerId
+            ? p
+            : approved
+            ? { ...p, sentenceStatus: "approved" }
+            : { ...p, sentence: undefined, sentenceStatus: "rejected" }
         ),
-      };
-      setGameState(newState);
-      network.broadcastGameState(newState);
+      }));
     },
-    [gameState]
+    [updateHostState]
   );
 
-  const startQuiz = useCallback(() => {
-    const network = networkRef.current;
-    if (!network?.isHost || !gameState) return;
+  const kickPlayer = useCallback(
+    (playerId: string, ban = false) => {
+      const network = networkRef.current;
+      const player = gameStateRef.current?.players.find((p) => p.id === playerId);
+      if (!network?.isHost || !player || player.isHost) return;
+
+      removeFromRoom(playerId, "The teacher removed you from the room.");
+      // Their session can't bring the seat back
+      const sessionKeys: string[] = [];
+      sessionsRef.current.forEach((id, key) => {
+        if (id === playerId) {
+          sessionKeys.push(key);
+          sessionsRef.current.delete(key);
+        }
+      });
+
+      updateHostState((prev) => {
+        const access = prev.access ?? DEFAULT_ROOM_ACCESS;
+        return {
+          ...removePlayer(prev, playerId),
+          access: ban ? banPlayer(access, player.name, sessionKeys) : access,
+        };
+      });
+    },
+    [removeFromRoom, updateHostState]
+  );
 
-    const newState: GameState = {
-      ...gameState,
+  const setRoomAccess = useCallback(
+    (access: RoomAccess) => {
+      if (!networkRef.current?.isHost) return;
+
+      // Kept on the teacher's device too, since backups never see it
+      const session = loadSession();
+      if (session) saveSession({ ...session, password: access.password });
+      // Whatever the teacher sets now replaces a backup's stand-in lock
+      updateHostState((prev) => ({ ...prev, access: { ...access, passwordWithheld: undefined } }));
+    },
+    [updateHostState]
+  );
+
+  const setSettings = useCallback(
+    (settings: GameSettings) => {
+      if (!networkRef.current?.isHost) return;
+
+      saveGameSettings(settings);
+      updateHostState((prev) => ({ ...prev, settings }));
+    },
+    [updateHostState]
+  );
+
+  const setModeration = useCallback(
+    (moderation: ModerationSettings) => {
+      if (!networkRef.current?.isHost) return;
+
+      saveModerationSettings(moderation);
+      updateHostState((prev) => ({ ...prev, moderation }));
+    },
+    [updateHostState]
+  );
+
+  const selectQuestionBank = useCallback(
+    (bank: QuestionBank) => {
+      if (!networkRef.current?.isHost || bank.questions.length === 0) return;
+
+      saveSelectedBankId(bank.id);
+      updateHostState((prev) => ({
+        ...prev,
+        ...splitAnswerKey(bank.questions),
+      }));
+    },
+    [updateHostState]
+  );
+
+  const startQuiz = useCallback(() => {
+    const now = Date.now();
+    updateHostState((prev) => ({
+      ...prev,
       phase: "quiz",
       currentQuestionIndex: 0,
-      quizTimeRemaining: QUIZ_DURATION,
-    };
-    setGameState(newState);
-    network.broadcastGameState(newState);
-  }, [gameState]);
+      questionRevealed: false,
+      questionStartTimes: [now],
+      endsAt:
+        now +
+        (prev.quizMode === "classroom"
+          ? prev.settings.questionDuration
+          : prev.settings.quizDuration) *
+          1000,
+    }));
+  }, [updateHostState]);
 
-  const updateQuizTime = useCallback((time: number) => {
-    const network = networkRef.current;
-    if (!network?.isHost) return;
+  const setQuizMode = useCallback(
+    (quizMode: QuizMode) => {
+      updateHostState((prev) => ({ ...prev, quizMode }));
+    },
+    [updateHostState]
+  );
 
-    setGameState((prev) => {
-      if (!prev) return prev;
-      const newState = { ...prev, quizTimeRemaining: time };
-      network.broadcastGameState(newState);
-      return newState;
+  const setGameMode = useCallback(
+    (gameMode: GameMode) => {
+      updateHostState((prev) => {
+        // Teams are dealt out the first time team mode is picked
+        const teams = gameMode === "teams" && prev.teams.length === 0
+          ? shuffleTeams(prev, MIN_TEAMS)
+          : prev.teams;
+        return { ...prev, gameMode, teams };
+      });
+    },
+    [updateHostState]
+  );
+
+  const setTeams = useCallback(
+    (teams: Team[]) => {
+      updateHostState((prev) => ({ ...prev, teams }));
+    },
+    [updateHostState]
+  );
+
+  const setScoringModel = useCallback(
+    (scoringModel: ScoringModel) => {
+      updateHostState((prev) => ({ ...prev, scoringModel }));
+    },
+    [updateHostState]
+  );
+
+  // Classroom mode: lock answers for the current question and show the results
+  const revealAnswer = useCallback(() => {
+    const newState = updateHostState((prev) => {
+      if (prev.questionRevealed) return prev;
+      // Scores only take in a question once it's revealed
+      return scorePlayers({
+        ...prev,
+        questionRevealed: true,
+        endsAt: Date.now() + prev.settings.revealDuration * 1000,
+      });
     });
-  }, []);
+    if (!newState) return;
+    newState.players
+      .filter((p) => !p.isHost)
+      .forEach((p) => sendQuizResults(newState, p.id, [newState.currentQuestionIndex]));
+  }, [updateHostState, sendQuizResults]);
+
+  const startDrawingPhase = useCallback(() => {
+    const newState = updateHostState((prev) => {
+      if (prev.gameMode === "telephone") {
+        // Rescore in case a classroom quiz ended before its last question was revealed
+        return startChains(scorePlayers(prev), Date.now());
+      }
+
+      if (prev.gameMode === "teams") {
+        return scorePlayers({
+          ...assignTeamSentences(prev),
+          phase: "drawing",
+          endsAt: Date.now() + prev.settings.drawingDuration * 1000,
+        });
+      }
+
+      // Only participants (non-host) get sentences assigned
+      const participants = prev.players.filter((p) => !p.isHost);
+      const playersWithSentences = participants.filter(isSentenceApproved);
+
+      // Create a derangement (permutation where no element is in its original position)
+      // This guarantees no player gets their own sentence
+      const createDerangement = (items: { sentence: string; authorId: string }[]) => {
+        if (items.length < 2) return items;
+
+        const result = [...items];
+        let isDerangement = false;
+
+        // Keep shuffling until we get a valid derangement
+        let attempts = 0;
+        while (!isDerangement && attempts < 100) {
+          // Fisher-Yates shuffle
+          for (let i = result.length - 1; i > 0; i--) {
+            const j = Math.floor(Math.random() * (i + 1));
+            [result[i], result[j]] = [result[j], result[i]];
+          }
+
+          // Check if it's a valid derangement (no one in original position)
+          isDerangement = result.every((item, index) => item.authorId !== items[index].authorId);
+          attempts++;
+        }
+
+        // If we couldn't find a derangement after 100 attempts (very unlikely),
+        // just do a simple rotation which guarantees no one gets their own
+        if (!isDerangement) {
+          const rotated = [...items];
+          rotated.push(rotated.shift()!);
+          return rotated;
+        }
+
+        return result;
+      };
+
+      const sentences = playersWithSentences.map((p) => ({
+        sentence: p.sentence!,
+        authorId: p.id,
+      }));
+
+      // Create deranged assignment
+      const derangedSentences = createDerangement(sentences);
+
+      // Assign sentences to participants
+      const assignments: Record<string, string> = {};
+      participants.forEach((player, index) => {
+        // Use deranged sentence at this index
+        const assignedSentence = derangedSentences[index % derangedSentences.length];
+        assignments[player.id] = assignedSentence.sentence;
+      });
+
+      // Rescore in case a classroom quiz ended before its last question was revealed
+      return scorePlayers({
+        ...prev,
+        phase: "drawing",
+        endsAt: Date.now() + prev.settings.drawingDuration * 1000,
+        players: prev.players.map((p) => ({
+          ...p,
+          assignedSentence: p.isHost ? undefined : assignments[p.id],
+        })),
+      });
+    });
+    if (!newState) return;
+    setLiveDrawings({});
+    teamCanvasesRef.current = new Map();
+  }, [updateHostState]);
 
   const nextQuestion = useCallback(() => {
-    const network = networkRef.current;
-    if (!network?.isHost || !gameState) return;
+    const state = gameStateRef.current;
+    if (!networkRef.current?.isHost || !state) return;
 
-    const newIndex = gameState.currentQuestionIndex + 1;
-    if (newIndex >= QUIZ_QUESTIONS.length) {
+    if (state.currentQuestionIndex + 1 >= state.quizQuestions.length) {
       // Quiz is over, start drawing phase
       startDrawingPhase();
-    } else {
-      const newState: GameState = {
-        ...gameState,
-        currentQuestionIndex: newIndex,
-      };
-      setGameState(newState);
-      network.broadcastGameState(newState);
+      return;
     }
-  }, [gameState]);
+    const now = Date.now();
+    updateHostState((prev) => ({
+      ...prev,
+      currentQuestionIndex: prev.currentQuestionIndex + 1,
+      questionRevealed: false,
+      questionStartTimes: [...prev.questionStartTimes, now],
+      endsAt: now + prev.settings.questionDuration * 1000,
+    }));
+  }, [startDrawingPhase, updateHostState]);
 
-  const startDrawingPhase = useCallback(() => {
-    const network = networkRef.current;
-    if (!network?.isHost || !gameState) return;
-
-    // Only participants (non-host) get sentences assigned
-    const participants = gameState.players.filter((p) => !p.isHost);
-    const playersWithSentences = participants.filter((p) => p.sentence);
-    
-    // Create a derangement (permutation where no element is in its original position)
-    // This guarantees no player gets their own sentence
-    const createDerangement = (items: { sentence: string; authorId: string }[]) => {
-      if (items.length < 2) return items;
-      
-      const result = [...items];
-      let isDerangement = false;
-      
-      // Keep shuffling until we get a valid derangement
-      let attempts = 0;
-      while (!isDerangement && attempts < 100) {
-        // Fisher-Yates shuffle
-        for (let i = result.length - 1; i > 0; i--) {
-          const j = Math.floor(Math.random() * (i + 1));
-          [result[i], result[j]] = [result[j], result[i]];
-        }
-        
-        // Check if it's a valid derangement (no one in original position)
-        isDerangement = result.every((item, index) => item.authorId !== items[index].authorId);
-        attempts++;
-      }
-      
-      // If we couldn't find a derangement after 100 attempts (very unlikely),
-      // just do a simple rotation which guarantees no one gets their own
-      if (!isDerangement) {
-        const rotated = [...items];
-        rotated.push(rotated.shift()!);
-        return rotated;
-      }
-      
-      return result;
-    };
+  // Telephone mode: ends the current step and passes every chain along
+  const advanceChain = useCallback(() => {
+    const newState = updateHostState((prev) => {
+      if (!prev.chainStep) return prev;
+      return advanceChains(prev, liveDrawings, Date.now());
+    });
+    if (newState) setLiveDrawings({});
+  }, [liveDrawings, updateHostState]);
 
-    const sentences = playersWithSentences.map((p) => ({
-      sentence: p.sentence!,
-      authorId: p.id,
-    }));
+  const startGuessing = useCallback(() => {
+    updateHostState((prev) => {
+      const state = collectTeamDrawings(prev, teamCanvasesRef.current);
+      return startSentenceGuessing(state, Date.now());
+    });
+  }, [updateHostState]);
 
-    // Create deranged assignment
-    const derangedSentences = createDerangement(sentences);
+  const startSlideshow = useCallback(() => {
+    updateHostState((prev) => {
+      const state = orderGallery(collectTeamDrawings(prev, teamCanvasesRef.current));
+      return goToSlide(
+        { ...state, phase: "slideshow", currentSlideIndex: 0, replay: null },
+        0,
+        Date.now()
+      );
+    });
+  }, [updateHostState]);
 
-    // Assign sentences to participants
-    const assignments: Record<string, string> = {};
-    participants.forEach((player, index) => {
-      // Use deranged sentence at this index
-      const assignedSentence = derangedSentences[index % derangedSentences.length];
-      assignments[player.id] = assignedSentence.sentence;
+  const nextSlide = useCallback(() => {
+    updateHostState((prev) => {
+      if (prev.gameMode === "telephone") return nextChainStep(prev, Date.now());
+      return goToSlide(prev, prev.currentSlideIndex + 1, Date.now());
     });
+  }, [updateHostState]);
 
-    const newState: GameState = {
-      ...gameState,
-      phase: "drawing",
-      drawingTimeRemaining: DRAWING_DURATION,
-      players: gameState.players.map((p) => ({
-        ...p,
-        assignedSentence: p.isHost ? undefined : assignments[p.id],
-      })),
-    };
-    setGameState(newState);
-    setLocalPlayer((prev) =>
-      prev ? { ...prev, assignedSentence: prev.isHost ? undefined : assignments[prev.id] } : prev
-    );
-    network.broadcastGameState(newState);
-  }, [gameState]);
+  const previousSlide = useCallback(() => {
+    updateHostState((prev) => {
+      if (prev.currentSlideIndex === 0) return prev;
+      const goTo = prev.gameMode === "telephone" ? goToChainSlide : goToSlide;
+      return goTo(prev, prev.currentSlideIndex - 1, Date.now());
+    });
+  }, [updateHostState]);
 
-  const updateDrawingTime = useCallback((time: number) => {
-    const network = networkRef.current;
-    if (!network?.isHost) return;
+  // Anonymous voting: closes the vote on the current drawing and shows its artist
+  const revealCurrentArtist = useCallback(() => {
+    updateHostState((prev) => {
+      if (prev.phase !== "slideshow") return prev;
+      return revealArtist(prev, Date.now());
+    });
+  }, [updateHostState]);
 
-    setGameState((prev) => {
-      if (!prev) return prev;
-      const newState = { ...prev, drawingTimeRemaining: time };
-      network.broadcastGameState(newState);
-      return newState;
+  const finishFinalVote = useCallback(() => {
+    updateHostState((prev) => {
+      if (prev.phase !== "final_vote") return prev;
+      return { ...prev, phase: "leaderboard", endsAt: null };
     });
-  }, []);
+  }, [updateHostState]);
 
-  const startSlideshow = useCallback(() => {
-    const network = networkRef.current;
-    if (!network?.isHost || !gameState) return;
+  const setReplaySpeed = useCallback((speed: number) => {
+    updateHostState((prev) => setSlideSpeed(prev, speed, Date.now()));
+  }, [updateHostState]);
 
-    const newState: GameState = {
-      ...gameState,
-      phase: "slideshow",
-      currentSlideIndex: 0,
-      slideTimeRemaining: 5,
-    };
-    setGameState(newState);
-    network.broadcastGameState(newState);
-  }, [gameState]);
+  // Holds the slideshow on the current drawing while the class talks about it
+  const pauseSlideshow = useCallback((paused: boolean) => {
+    updateHostState((prev) => {
+      const setPaused = prev.gameMode === "telephone" ? setChainSlidePaused : setSlidePaused;
+      return setPaused(prev, paused, Date.now());
+    });
+  }, [updateHostState]);
 
-  const updateSlideTime = useCallback((time: number) => {
-    const network = networkRef.current;
-    if (!network?.isHost || !gameState) return;
+  const changeSlideAdvance = useCallback((advance: SlideAdvance) => {
+    updateHostState((prev) => {
+      const setAdvance = prev.gameMode === "telephone" ? setChainSlideAdvance : setSlideAdvance;
+      return setAdvance(prev, advance, Date.now());
+    });
+  }, [updateHostState]);
 
-    const newState: GameState = {
-      ...gameState,
-      slideTimeRemaining: time,
-    };
-    setGameState(newState);
-    network.broadcastGameState(newState);
-  }, [gameState]);
+  const changeGalleryOrder = useCallback((order: GalleryOrder) => {
+    updateHostState((prev) => {
+      if (prev.gameMode === "telephone") return prev;
+      return reorderGallery(prev, order);
+    });
+  }, [updateHostState]);
+
+  const setDrawingHidden = useCallback(
+    (playerId: string, hidden: boolean) => {
+      updateHostState((prev) => {
+        const showingId = getGalleryPlayers(prev)[prev.currentSlideIndex]?.id;
+        // A team drawing is hidden from every teammate's copy
+        const hiddenIds = getTeamOf(prev, playerId)?.playerIds ?? [playerId];
+        const newState: GameState = {
+          ...prev,
+          players: prev.players.map((p) =>
+            hiddenIds.includes(p.id) ? { ...p, drawingHidden: hidden } : p
+          ),
+        };
+        // Keep the slideshow on the drawing it was showing, or move on if that's
+        // the one that was hidden
+        if (prev.phase !== "slideshow") return newState;
+        const index = getGalleryPlayers(newState).findIndex((p) => p.id === showingId);
+        return index === -1
+          ? goToSlide(newState, prev.currentSlideIndex, Date.now())
+          : { ...newState, currentSlideIndex: index };
+      });
+    },
+    [updateHostState]
+  );
 
-  const nextSlide = useCallback(() => {
-    const network = networkRef.current;
-    if (!network?.isHost || !gameState) return;
-
-    // Filter out host - only count participant drawings
-    const playersWithDrawings = gameState.players.filter(
-      (p) => !p.isHost && p.drawingDataUrl
-    );
-    const newIndex = gameState.currentSlideIndex + 1;
-
-    if (newIndex >= playersWithDrawings.length) {
-      // Slideshow is over, show leaderboard
-      const newState: GameState = {
-        ...gameState,
-        phase: "leaderboard",
-      };
-      setGameState(newState);
-      network.broadcastGameState(newState);
-    } else {
-      const newState: GameState = {
-        ...gameState,
-        currentSlideIndex: newIndex,
-        slideTimeRemaining: 5, // Reset timer for new slide
-      };
-      setGameState(newState);
-      network.broadcastGameState(newState);
-    }
-  }, [gameState]);
+  const nextRound = useCallback(() => {
+    const newState = updateHostState((prev) => {
+      if (prev.phase !== "leaderboard") return prev;
+      return startNextRound(prev);
+    });
+    if (!newState) return;
+    setQuizResults({});
+    setLiveDrawings({});
+    teamCanvasesRef.current = new Map();
+  }, [updateHostState]);
+
+  const endGame = useCallback(() => {
+    updateHostState((prev) => {
+      if (prev.phase !== "leaderboard") return prev;
+      return finishGame(prev);
+    });
+  }, [updateHostState]);
 
   const resetGame = useCallback(() => {
-    const network = networkRef.current;
-    if (!network?.isHost || !gameState) return;
-
-    const newState: GameState = {
-      ...gameState,
+    const newState = updateHostState((prev) => ({
+      ...clearRound(prev),
       phase: "lobby",
-      currentQuestionIndex: 0,
-      quizAnswers: {},
-      quizTimeRemaining: QUIZ_DURATION,
-      drawingTimeRemaining: DRAWING_DURATION,
-      currentSlideIndex: 0,
-      slideTimeRemaining: 5,
-      reactions: {},
-      players: gameState.players.map((p) => ({
-        ...p,
-        sentence: undefined,
-        quizScore: 0,
-        drawingDataUrl: undefined,
-        assignedSentence: undefined,
-        thumbsUp: 0,
-        thumbsDown: 0,
-      })),
-    };
-    setGameState(newState);
-    network.broadcastGameState(newState);
-  }, [gameState]);
+      round: 1,
+      roundHistory: [],
+    }));
+    if (!newState) return;
+    setQuizResults({});
+    setLiveDrawings({});
+    teamCanvasesRef.current = new Map();
+  }, [updateHostState]);
+
+  // The room authority moves things on when a deadline passes; everyone
+  // renders their own countdown from the same deadline
+  useEffect(() => {
+    if (!isAuthority || !gameState || gameState.endsAt === null) return;
+
+    let onTimeUp: (() => void) | undefined;
+    switch (gameState.phase) {
+      case "quiz":
+        if (gameState.quizMode === "classroom") {
+          onTimeUp = gameState.questionRevealed ? nextQuestion : revealAnswer;
+        } else {
+          onTimeUp = startDrawingPhase;
+        }
+        break;
+      case "drawing":
+      case "guessing":
+        // Telephone steps move on by themselves; a classic drawing round
+        // running out just lets the teacher start the slideshow
+        if (gameState.gameMode !== "telephone") return;
+        onTimeUp = advanceChain;
+        break;
+      case "sentence_guessing":
+        onTimeUp = startSlideshow;
+        break;
+      case "slideshow":
+        onTimeUp = isArtistSecret(gameState, getGalleryPlayers(gameState)[gameState.currentSlideIndex]?.drawingId)
+          ? revealCurrentArtist
+          : nextSlide;
+        break;
+      case "final_vote":
+        onTimeUp = finishFinalVote;
+        break;
+      default:
+        return;
+    }
+
+    const timeout = setTimeout(onTimeUp, Math.max(0, gameState.endsAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [
+    isAuthority,
+    gameState,
+    revealAnswer,
+    nextQuestion,
+    startDrawingPhase,
+    advanceChain,
+    startSlideshow,
+    nextSlide,
+    revealCurrentArtist,
+    finishFinalVote,
+  ]);
 
   return {
     gameState,
     localPlayer,
+    quizResults,
+    clockOffset,
+    liveDrawings,
+    teamCanvas,
     isConnected,
+    roomAddress,
+    isReconnecting,
     error,
-    isHost: networkRef.current?.isHost ?? false,
+    isHost: localPlayer?.isHost ?? false,
+    // Runs the room's logic: the teacher's device, or a backup's while the teacher is away
+    isAuthority,
     createRoom,
     joinRoom,
     submitSentence,
     submitQuizAnswer,
     submitDrawing,
+    submitGuess,
+    submitPromptGuess,
+    sendDrawingProgress,
+    sendTeamActions,
     submitReaction,
+    submitRating,
+    submitFinalVote,
     startSentenceSubmission,
+    selectQuestionBank,
     updatePlayerSentence,
+    reviewSentence,
+    kickPlayer,
+    setRoomAccess,
+    setSettings,
+    setModeration,
+    setQuizMode,
+    setGameMode,
+    setTeams,
+    setScoringModel,
     startQuiz,
-    updateQuizTime,
+    revealAnswer,
     nextQuestion,
     startDrawingPhase,
-    updateDrawingTime,
+    advanceChain,
+    startGuessing,
     startSlideshow,
-    updateSlideTime,
     nextSlide,
+    previousSlide,
+    revealCurrentArtist,
+    finishFinalVote,
+    setReplaySpeed,
+    pauseSlideshow,
+    changeSlideAdvance,
+    changeGalleryOrder,
+    setDrawingHidden,
+    nextRound,
+    endGame,
     resetGame,
   };
 }
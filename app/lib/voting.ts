@@ -0,0 +1,167 @@
+"use client";
+
+import { getGalleryPlayers, isArtistRevealed } from "./replay";
+import { isSameArtist } from "./teams";
+import { GameState, Player } from "./types";
+
+export const MAX_STARS = 5;
+export const STAR_POINTS = 10; // standings points per star, so five stars match a thumbs up
+export const AWARD_POINTS = 100; // for each category award, and for winning the ranked-choice vote
+
+export const VOTE_CATEGORIES = [
+  { id: "funniest", label: "😂 Funniest" },
+  { id: "accurate", label: "🎯 Most Accurate" },
+  { id: "art", label: "🎨 Best Art" },
+];
+
+// The drawings a player can vote on: everyone else's in the gallery
+export function getVoteTargets(state: GameState, voterId: string): Player[] {
+  return getGalleryPlayers(state).filter((p) => !isSameArtist(state, p.id, voterId));
+}
+
+function canVote(state: GameState, voterId: string, artistId: string): boolean {
+  const voter = state.players.find((p) => p.id === voterId);
+  return !!voter && !voter.isHost && getVoteTargets(state, voterId).some((p) => p.id === artistId);
+}
+
+// Stars can be changed while the drawing is on screen, until its artist is revealed
+export function recordRating(
+  state: GameState,
+  voterId: string,
+  drawingId: string,
+  stars: number
+): GameState {
+  const artist = getGalleryPlayers(state).find((p) => p.drawingId === drawingId);
+  if (
+    state.phase !== "slideshow" ||
+    isArtistRevealed(state, drawingId) ||
+    state.settings.voting !== "stars" ||
+    !Number.isInteger(stars) ||
+    stars < 1 ||
+    stars > MAX_STARS ||
+    !artist ||
+    !canVote(state, voterId, artist.id)
+  ) {
+    return state;
+  }
+  return {
+    ...state,
+    ratings: { ...state.ratings, [drawingId]: { ...state.ratings[drawingId], [voterId]: stars } },
+  };
+}
+
+export function getRating(state: GameState, drawingId: string | undefined) {
+  const stars = Object.values((drawingId && state.ratings[drawingId]) || {});
+  const total = stars.reduce((sum, s) => sum + s, 0);
+  return { total, count: stars.length, average: stars.length > 0 ? total / stars.length : 0 };
+}
+
+export function hasFinalVoted(state: GameState, voterId: string): boolean {
+  return (
+    voterId in state.rankedBallots ||
+    Object.values(state.categoryVotes).some((votes) => voterId in votes)
+  );
+}
+
+// One ballot per player: a drawing for each award and/or a ranking of the
+// drawings, favourite first. Anything they can't vote for is dropped.
+export function recordFinalVote(
+  state: GameState,
+  voterId: string,
+  picks: Record<string, string>,
+  ranking: string[]
+): GameState {
+  if (state.phase !== "final_vote" || hasFinalVoted(state, voterId)) return state;
+
+  const categoryVotes = { ...state.categoryVotes };
+  if (state.settings.categoryVoting) {
+    for (const category of VOTE_CATEGORIES) {
+      const artistId = picks[category.id];
+      if (artistId && canVote(state, voterId, artistId)) {
+        categoryVotes[category.id] = { ...categoryVotes[category.id], [voterId]: artistId };
+      }
+    }
+  }
+
+  const rankedBallots = { ...state.rankedBallots };
+  if (state.settings.rankedVoting) {
+    const ballot = [...new Set(ranking)].filter((id) => canVote(state, voterId, id));
+    if (ballot.length > 0) rankedBallots[voterId] = ballot;
+  }
+
+  return { ...state, categoryVotes, rankedBallots };
+}
+
+// Everyone on the most votes - more than one means a tie
+function getLeaders(counts: Map<string, number>): string[] {
+  const most = Math.max(0, ...counts.values());
+  return most > 0 ? [...counts].filter(([, count]) => count === most).map(([id]) => id) : [];
+}
+
+export interface CategoryResult {
+  id: string;
+  label: string;
+  winnerIds: string[];
+  votes: number;
+}
+
+export function getCategoryResults(state: GameState): CategoryResult[] {
+  return VOTE_CATEGORIES.map((category) => {
+    const counts = new Map<string, number>();
+    for (const artistId of Object.values(state.categoryVotes[category.id] ?? {})) {
+      counts.set(artistId, (counts.get(artistId) ?? 0) + 1);
+    }
+    const winnerIds = getLeaders(counts);
+    return { ...category, winnerIds, votes: winnerIds.length > 0 ? counts.get(winnerIds[0])! : 0 };
+  });
+}
+
+export interface RankedChoiceResult {
+  winnerIds: string[]; // more than one if the last drawings standing tied
+  rounds: number; // rounds of counting it took
+}
+
+// Instant runoff: each ballot counts for its favourite drawing still in the
+// running, and the drawings with the fewest votes drop out until one has a
+// majority. If everything left is level, they share the win.
+export function getRankedChoiceResult(state: GameState): RankedChoiceResult {
+  const ballots = Object.values(state.rankedBallots).filter((ballot) => ballot.length > 0);
+  let remaining = getGalleryPlayers(state).map((p) => p.id);
+  if (ballots.length === 0 || remaining.length === 0) return { winnerIds: [], rounds: 0 };
+
+  for (let round = 1; ; round++) {
+    const counts = new Map(remaining.map((id) => [id, 0]));
+    for (const ballot of ballots) {
+      const choice = ballot.find((id) => counts.has(id));
+      if (choice) counts.set(choice, counts.get(choice)! + 1);
+    }
+
+    const active = [...counts.values()].reduce((sum, count) => sum + count, 0);
+    if (active === 0) return { winnerIds: [], rounds: round };
+    const [leader] = getLeaders(counts);
+    if (leader && counts.get(leader)! * 2 > active) {
+      return { winnerIds: [leader], rounds: round };
+    }
+
+    const fewest = Math.min(...counts.values());
+    const out = remaining.filter((id) => counts.get(id) === fewest);
+    if (out.length === remaining.length) return { winnerIds: remaining, rounds: round };
+    remaining = remaining.filter((id) => counts.get(id) !== fewest);
+  }
+}
+
+// How many awards a drawing won, the ranked-choice vote included
+export function getAwardCount(state: GameState, artistId: string): number {
+  const categories = getCategoryResults(state).filter((r) => r.winnerIds.includes(artistId));
+  const ranked = getRankedChoiceResult(state).winnerIds.includes(artistId) ? 1 : 0;
+  return categories.length + ranked;
+}
+
+// Sorts best first and numbers the places, with ties sharing a place (1, 1, 3)
+export function rankWithTies<T>(items: T[], score: (item: T) => number): { item: T; place: number }[] {
+  const sorted = [...items].sort((a, b) => score(b) - score(a));
+  return sorted.map((item) => ({
+    item,
+    place: sorted.findIndex((other) => score(other) === score(item)) + 1,
+  }));
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { BaseTransport, ConnectOptions, TransportError, TransportErrorType } from "./transport";
+import { GameMessage } from "./types";
+
+// Frames exchanged with relay-server.mjs
+type RelayFrame =
+  | { type: "registered" }
+  | { type: "connected"; peer: string }
+  | { type: "connection"; peer: string; metadata?: unknown }
+  | { type: "data"; peer: string; data: GameMessage }
+  | { type: "close"; peer: string }
+  | { type: "error"; code: TransportErrorType; message: string };
+
+export const RELAY_PARAM = "relay";
+
+// A join link names the host's relay, which beats any guess made here
+export function getRelayUrl(): string {
+  const linked = new URLSearchParams(window.location.search).get(RELAY_PARAM);
+  return linked || (process.env.NEXT_PUBLIC_RELAY_URL ?? `ws://${window.location.hostname}:3001`);
+}
+
+// Messages forwarded by our own relay server, for networks that block the
+// PeerJS broker or have no internet at all
+export class WebSocketTransport extends BaseTransport {
+  private socket: WebSocket | null = null;
+  private peers: Set<string> = new Set();
+  private hostId: string | null = null;
+
+  constructor(public readonly url: string = getRelayUrl()) {
+    super();
+  }
+
+  connect({ peerId, hostId, metadata }: ConnectOptions): Promise<void> {
+    this.hostId = hostId ?? null;
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      this.socket = socket;
+
+      socket.onopen = () => {
+        this.sendFrame({ type: "register", id: peerId });
+      };
+
+      socket.onmessage = (event) => {
+        const frame = JSON.parse(event.data as string) as RelayFrame;
+        switch (frame.type) {
+          case "registered":
+            if (hostId) {
+              this.sendFrame({ type: "connect", to: hostId, metadata });
+            } else {
+              resolve();
+            }
+            break;
+
+          case "connected":
+            this.peers.add(frame.peer);
+            resolve();
+            break;
+
+          case "connection":
+            this.peers.add(frame.peer);
+            this.emitConnection(frame.peer, frame.metadata);
+            break;
+
+          case "data":
+            // The relay stamps the sending peer, so trust that over the message
+            this.emitMessage({ ...frame.data, senderId: frame.peer });
+            break;
+
+          case "close":
+            this.peers.delete(frame.peer);
+            this.emitDisconnection(frame.peer);
+            break;
+
+          case "error":
+            console.error("Relay error:", frame.message);
+            reject(new TransportError(frame.code, frame.message));
+            break;
+        }
+      };
+
+      socket.onerror = () => {
+        reject(new TransportError("network", "Could not reach the relay server."));
+      };
+
+      // Losing the relay drops every link at once
+      socket.onclose = () => {
+        const peers = [...this.peers];
+        this.peers.clear();
+        peers.forEach((peer) => this.emitDisconnection(peer));
+      };
+    });
+  }
+
+  private sendFrame(frame: Record<string, unknown>) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(frame));
+    }
+  }
+
+  send(message: GameMessage) {
+    if (this.hostId) {
+      this.sendFrame({ type: "send", to: this.hostId, data: message });
+    } else {
+      this.peers.forEach((peer) => this.sendFrame({ type: "send", to: peer, data: message }));
+    }
+  }
+
+  sendToPlayer(peerId: string, message: GameMessage) {
+    if (this.peers.has(peerId)) {
+      this.sendFrame({ type: "send", to: peerId, data: message });
+    }
+  }
+
+  getPeerIds(): string[] {
+    return this.hostId ? [] : [...this.peers];
+  }
+
+  disconnectPeer(peerId: string) {
+    if (!this.peers.delete(peerId)) return;
+    this.sendFrame({ type: "disconnect", peer: peerId });
+    this.emitDisconnection(peerId);
+  }
+
+  disconnect() {
+    this.peers.clear();
+    this.socket?.close();
+    this.socket = null;
+  }
+}
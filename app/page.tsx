@@ -1,18 +1,31 @@
 "use client";
 
+import { ChainSlideshow } from "./components/ChainSlideshow";
+import { ClassroomQuiz } from "./components/ClassroomQuiz";
 import { DrawingCanvas } from "./components/DrawingCanvas";
+import { FinalVote } from "./components/FinalVote";
+import { GameOver } from "./components/GameOver";
+import { GuessRound } from "./components/GuessRound";
 import { Leaderboard } from "./components/Leaderboard";
 import { Lobby } from "./components/Lobby";
 import { QuizRound } from "./components/QuizRound";
+import { SentenceGuessRound } from "./components/SentenceGuessRound";
 import { SentenceSubmission } from "./components/SentenceSubmission";
 import { Slideshow } from "./components/Slideshow";
+import { useCountdown } from "./lib/useCountdown";
 import { useGameState } from "./lib/useGameState";
 
 export default function Home() {
   const {
     gameState,
     localPlayer,
+    quizResults,
+    clockOffset,
+    liveDrawings,
+    teamCanvas,
     isConnected,
+    roomAddress,
+    isReconnecting,
     error,
     isHost,
     createRoom,
@@ -20,18 +33,47 @@ export default function Home() {
     submitSentence,
     submitQuizAnswer,
     submitDrawing,
+    submitGuess,
+    submitPromptGuess,
+    sendDrawingProgress,
+    sendTeamActions,
     submitReaction,
+    submitRating,
+    submitFinalVote,
     startSentenceSubmission,
+    selectQuestionBank,
+    setQuizMode,
+    setGameMode,
+    setTeams,
+    setScoringModel,
     updatePlayerSentence,
+    reviewSentence,
+    kickPlayer,
+    setRoomAccess,
+    setSettings,
+    setModeration,
     startQuiz,
-    updateQuizTime,
+    revealAnswer,
+    nextQuestion,
     startDrawingPhase,
-    updateDrawingTime,
+    advanceChain,
+    startGuessing,
     startSlideshow,
-    updateSlideTime,
     nextSlide,
+    previousSlide,
+    revealCurrentArtist,
+    finishFinalVote,
+    setReplaySpeed,
+    pauseSlideshow,
+    changeSlideAdvance,
+    changeGalleryOrder,
+    setDrawingHidden,
+    nextRound,
+    endGame,
     resetGame,
   } = useGameState();
+  const timeRemaining = useCountdown(gameState?.endsAt ?? null, clockOffset);
+  const access = gameState?.access;
 
   const renderPhase = () => {
     if (!gameState) {
@@ -41,10 +83,20 @@ export default function Home() {
           localPlayer={null}
           isHost={false}
           isConnected={false}
+          roomAddress={null}
           error={error}
           onCreateRoom={createRoom}
           onJoinRoom={joinRoom}
           onStartGame={startSentenceSubmission}
+          onSelectQuestionBank={selectQuestionBank}
+          onSetQuizMode={setQuizMode}
+          onSetGameMode={setGameMode}
+          onSetTeams={setTeams}
+          onSetScoringModel={setScoringModel}
+          onSetSettings={setSettings}
+          onSetModeration={setModeration}
+          onKickPlayer={kickPlayer}
+          onSetRoomAccess={setRoomAccess}
         />
       );
     }
@@ -57,10 +109,20 @@ export default function Home() {
             localPlayer={localPlayer}
             isHost={isHost}
             isConnected={isConnected}
+            roomAddress={roomAddress}
             error={error}
             onCreateRoom={createRoom}
             onJoinRoom={joinRoom}
             onStartGame={startSentenceSubmission}
+            onSelectQuestionBank={selectQuestionBank}
+            onSetQuizMode={setQuizMode}
+            onSetGameMode={setGameMode}
+            onSetTeams={setTeams}
+            onSetScoringModel={setScoringModel}
+            onSetSettings={setSettings}
+            onSetModeration={setModeration}
+            onKickPlayer={kickPlayer}
+            onSetRoomAccess={setRoomAccess}
           />
         );
 
@@ -72,20 +134,38 @@ export default function Home() {
             isHost={isHost}
             onSubmitSentence={submitSentence}
             onUpdatePlayerSentence={updatePlayerSentence}
+            onReviewSentence={reviewSentence}
+            onKickPlayer={kickPlayer}
             onStartQuiz={startQuiz}
           />
         );
 
       case "quiz":
+        if (gameState.quizMode === "classroom") {
+          return (
+            <ClassroomQuiz
+              gameState={gameState}
+              timeRemaining={timeRemaining}
+              localPlayer={localPlayer}
+              quizResults={quizResults}
+              isHost={isHost}
+              onSubmitAnswer={submitQuizAnswer}
+              onRevealAnswer={revealAnswer}
+              onNextQuestion={nextQuestion}
+              onStartDrawing={startDrawingPhase}
+            />
+          );
+        }
         return (
           <QuizRound
             gameState={gameState}
+            timeRemaining={timeRemaining}
             localPlayer={localPlayer}
+            quizResults={quizResults}
             isHost={isHost}
             onSubmitAnswer={submitQuizAnswer}
             onUpdatePlayerSentence={updatePlayerSentence}
             onStartDrawing={startDrawingPhase}
-            onUpdateQuizTime={updateQuizTime}
           />
         );
 
@@ -93,29 +173,109 @@ export default function Home() {
         return (
           <DrawingCanvas
             gameState={gameState}
+            timeRemaining={timeRemaining}
             localPlayer={localPlayer}
+            liveDrawings={liveDrawings}
+            teamCanvas={teamCanvas}
             isHost={isHost}
             onSubmitDrawing={submitDrawing}
-            onUpdateTime={updateDrawingTime}
+            onDrawingProgress={sendDrawingProgress}
+            onTeamActions={sendTeamActions}
+            onStartSlideshow={
+              gameState.gameMode === "telephone"
+                ? advanceChain
+                : gameState.settings.guessSentences
+                ? startGuessing
+                : startSlideshow
+            }
+          />
+        );
+
+      case "sentence_guessing":
+        return (
+          <SentenceGuessRound
+            gameState={gameState}
+            timeRemaining={timeRemaining}
+            localPlayer={localPlayer}
+            isHost={isHost}
+            onSubmitGuess={submitPromptGuess}
             onStartSlideshow={startSlideshow}
           />
         );
 
+      case "guessing":
+        return (
+          <GuessRound
+            gameState={gameState}
+            timeRemaining={timeRemaining}
+            localPlayer={localPlayer}
+            isHost={isHost}
+            onSubmitGuess={submitGuess}
+            onPassOn={advanceChain}
+          />
+        );
+
       case "slideshow":
+        if (gameState.gameMode === "telephone") {
+          return (
+            <ChainSlideshow
+              gameState={gameState}
+              timeRemaining={timeRemaining}
+              isHost={isHost}
+              onNextSlide={nextSlide}
+              onPreviousSlide={previousSlide}
+              onPause={pauseSlideshow}
+              onSetSlideAdvance={changeSlideAdvance}
+            />
+          );
+        }
         return (
           <Slideshow
             gameState={gameState}
+            timeRemaining={timeRemaining}
+            clockOffset={clockOffset}
             localPlayer={localPlayer}
             isHost={isHost}
             onSubmitReaction={submitReaction}
+            onSubmitRating={submitRating}
             onNextSlide={nextSlide}
-            onUpdateSlideTime={updateSlideTime}
+            onPreviousSlide={previousSlide}
+            onRevealArtist={revealCurrentArtist}
+            onSetReplaySpeed={setReplaySpeed}
+            onPause={pauseSlideshow}
+            onSetSlideAdvance={changeSlideAdvance}
+            onSetGalleryOrder={changeGalleryOrder}
+            onSetDrawingHidden={setDrawingHidden}
+          />
+        );
+
+      case "final_vote":
+        return (
+          <FinalVote
+            gameState={gameState}
+            timeRemaining={timeRemaining}
+            localPlayer={localPlayer}
+            isHost={isHost}
+            onSubmitVote={submitFinalVote}
+            onShowResults={finishFinalVote}
           />
         );
 
       case "leaderboard":
         return (
           <Leaderboard
+            gameState={gameState}
+            localPlayer={localPlayer}
+            isHost={isHost}
+            onSetDrawingHidden={setDrawingHidden}
+            onNextRound={nextRound}
+            onEndGame={endGame}
+          />
+        );
+
+      case "game_over":
+        return (
+          <GameOver
             gameState={gameState}
             localPlayer={localPlayer}
             isHost={isHost}
@@ -130,6 +290,20 @@ export default function Home() {
 
   return (
     <div className="game-container">
+      {isReconnecting && (
+        <div className="reconnect-banner">
+          📡 Connection lost - reconnecting to the room...
+        </div>
+      )}
+      {isHost && access && gameState?.phase !== "lobby" && (
+        <button
+          className="room-lock"
+          onClick={() => setRoomAccess({ ...access, locked: !access.locked })}
+          title={access.locked ? "Let new players join" : "Stop new players joining"}
+        >
+          {access.locked ? "🔒 Room locked" : "🔓 Room open"}
+        </button>
+      )}
       {renderPhase()}
     </div>
   );
@@ -0,0 +1,97 @@
+// Minimal WebSocket relay for running draWG without the PeerJS broker, e.g. in
+// a school lab with no internet. Each client registers a peer ID; the relay
+// forwards messages between linked peers and tells each side when the other
+// goes away.
+//
+//   npm run relay            # listens on :3001
+//   RELAY_PORT=4000 npm run relay
+
+import { WebSocketServer } from "ws";
+
+const port = Number(process.env.RELAY_PORT ?? 3001);
+const server = new WebSocketServer({ port });
+
+const sockets = new Map(); // peer ID -> socket
+const links = new Map(); // peer ID -> Set of linked peer IDs
+
+function sendFrame(socket, frame) {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(frame));
+  }
+}
+
+function link(a, b) {
+  if (!links.has(a)) links.set(a, new Set());
+  if (!links.has(b)) links.set(b, new Set());
+  links.get(a).add(b);
+  links.get(b).add(a);
+}
+
+server.on("connection", (socket) => {
+  let peerId = null;
+
+  socket.on("message", (raw) => {
+    let frame;
+    try {
+      frame = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+
+    switch (frame.type) {
+      case "register": {
+        if (sockets.has(frame.id)) {
+          sendFrame(socket, { type: "error", code: "unavailable-id", message: `ID "${frame.id}" is taken` });
+          return;
+        }
+        peerId = frame.id;
+        sockets.set(peerId, socket);
+        sendFrame(socket, { type: "registered" });
+        break;
+      }
+
+      case "connect": {
+        const target = sockets.get(frame.to);
+        if (!peerId || !target) {
+          sendFrame(socket, { type: "error", code: "peer-unavailable", message: `Could not connect to peer ${frame.to}` });
+          return;
+        }
+        link(peerId, frame.to);
+        sendFrame(target, { type: "connection", peer: peerId, metadata: frame.metadata });
+        sendFrame(socket, { type: "connected", peer: frame.to });
+        break;
+      }
+
+      case "send": {
+        // Only linked peers may talk to each other
+        if (!peerId || !links.get(peerId)?.has(frame.to)) return;
+        const target = sockets.get(frame.to);
+        if (target) sendFrame(target, { type: "data", peer: peerId, data: frame.data });
+        break;
+      }
+
+      case "disconnect": {
+        // One side ending the link, e.g. a host removing a player
+        if (!peerId || !links.get(peerId)?.has(frame.peer)) return;
+        links.get(peerId).delete(frame.peer);
+        links.get(frame.peer)?.delete(peerId);
+        const target = sockets.get(frame.peer);
+        if (target) sendFrame(target, { type: "close", peer: peerId });
+        break;
+      }
+    }
+  });
+
+  socket.on("close", () => {
+    if (!peerId) return;
+    sockets.delete(peerId);
+    for (const other of links.get(peerId) ?? []) {
+      links.get(other)?.delete(peerId);
+      const target = sockets.get(other);
+      if (target) sendFrame(target, { type: "close", peer: peerId });
+    }
+    links.delete(peerId);
+  });
+});
+
+console.log(`draWG relay listening on ws://0.0.0.0:${port}`);